@@ -0,0 +1,141 @@
+import { describe, it, expect } from '@jest/globals';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { composeAccessControl, createScopedAccessControl } from '../src/access-control';
+import { AuthenticatedUser, createDenyAllAccessControl } from '../src/config';
+
+const request = { query: {} } as FastifyRequest;
+const reply = {} as FastifyReply;
+
+const member: AuthenticatedUser = {
+  userId: 'user-1',
+  userEmail: 'member@example.com',
+  groups: [{ type: 'team', id: 'team-1', name: 'Team 1' }],
+};
+const scopeAdmin: AuthenticatedUser = { userId: 'user-2', adminScopes: ['team:team-1'] };
+const teamScope = { scopeType: 'team', scope: 'team-1' };
+
+describe('createScopedAccessControl', () => {
+  const hooks = createScopedAccessControl();
+
+  it('lets scope members read but only scope admins delete', async () => {
+    expect(await hooks.canAccessInvitationsByScope(request, reply, member, teamScope)).toBe(true);
+    expect(
+      await hooks.canAccessInvitationsByScope(request, reply, member, {
+        scopeType: 'team',
+        scope: 'team-2',
+      })
+    ).toBe(false);
+    expect(await hooks.canDeleteInvitationsByScope(request, reply, member, teamScope)).toBe(false);
+    expect(await hooks.canDeleteInvitationsByScope(request, reply, scopeAdmin, teamScope)).toBe(
+      true
+    );
+  });
+
+  it('matches admin scopes by type and ID', async () => {
+    const projectScope = { scopeType: 'project', scope: 'team-1' };
+
+    expect(await hooks.canDeleteInvitationsByScope(request, reply, scopeAdmin, projectScope)).toBe(
+      false
+    );
+    expect(await hooks.canAccessInvitationsByScope(request, reply, scopeAdmin, projectScope)).toBe(
+      false
+    );
+  });
+
+  it('lets users look up and accept only their own invitations', async () => {
+    const ownTarget = { query: { targetValue: 'Member@example.com' } } as FastifyRequest;
+    const otherTarget = { query: { targetValue: 'other@example.com' } } as FastifyRequest;
+
+    expect(await hooks.canAccessInvitationsByTarget(ownTarget, reply, member)).toBe(true);
+    expect(await hooks.canAccessInvitationsByTarget(otherTarget, reply, member)).toBe(false);
+    expect(
+      await hooks.canAcceptInvitations(request, reply, member, {
+        invitationIds: ['inv_1'],
+        user: { email: 'member@example.com' },
+      })
+    ).toBe(true);
+    expect(
+      await hooks.canAcceptInvitations(request, reply, member, {
+        invitationIds: ['inv_1'],
+        user: { email: 'other@example.com' },
+      })
+    ).toBe(false);
+  });
+
+  it('lets the inviter resend a prefetched invitation', async () => {
+    const invitation = { id: 'inv_1', foreignCreatorId: 'user-1', scopes: [], target: [] };
+    const resource = { invitationId: 'inv_1', invitation: invitation as never };
+
+    expect(await hooks.canReinvite(request, reply, member, resource)).toBe(true);
+    expect(await hooks.canReinvite(request, reply, scopeAdmin, resource)).toBe(false);
+  });
+
+  it('leaves single invitations to admin users without a prefetched invitation', async () => {
+    const resource = { invitationId: 'inv_1' };
+    const admin = { ...member, role: 'admin' };
+
+    expect(await hooks.canAccessInvitation(request, reply, member, resource)).toBe(false);
+    expect(await hooks.canDeleteInvitation(request, reply, scopeAdmin, resource)).toBe(false);
+    expect(await hooks.canDeleteInvitation(request, reply, admin, resource)).toBe(true);
+  });
+
+  it('denies unauthenticated users', async () => {
+    const open = createScopedAccessControl({ rules: { read: 'authenticated' } });
+
+    expect(await open.canAccessInvitation(request, reply, member, { invitationId: 'inv_1' })).toBe(
+      true
+    );
+    expect(await open.canAccessInvitation(request, reply, null, { invitationId: 'inv_1' })).toBe(
+      false
+    );
+  });
+
+  it('supports role rules, custom rules and overrides', async () => {
+    const custom = createScopedAccessControl({
+      rules: {
+        delete: { role: ['owner'] },
+        create: [({ resource }) => (resource as { targets: unknown[] }).targets.length <= 5],
+      },
+      overrides: { canReinvite: async () => true },
+    });
+    const owner = { ...member, role: 'owner' };
+    const createResource = {
+      widgetConfigurationId: 'widget-1',
+      targets: [{ type: 'internal' as const, value: 'user-2' }],
+      deliveryTypes: ['internal' as const],
+      inviter: { userId: 'user-1' },
+    };
+
+    expect(await custom.canDeleteInvitation(request, reply, owner, { invitationId: 'inv_1' })).toBe(
+      true
+    );
+    expect(
+      await custom.canDeleteInvitation(request, reply, member, { invitationId: 'inv_1' })
+    ).toBe(false);
+    expect(await custom.canCreateInvitation(request, reply, member, createResource)).toBe(true);
+    expect(await custom.canReinvite(request, reply, null, { invitationId: 'inv_1' })).toBe(true);
+  });
+});
+
+describe('composeAccessControl', () => {
+  it('requires every hook defined for an operation to allow it', async () => {
+    const hooks = composeAccessControl(createScopedAccessControl(), {
+      canAccessInvitationsByScope: async (_request, _reply, user) => user?.userId !== 'user-1',
+    });
+
+    expect(await hooks.canAccessInvitationsByScope!(request, reply, member, teamScope)).toBe(false);
+    expect(await hooks.canAccessInvitationsByScope!(request, reply, scopeAdmin, teamScope)).toBe(
+      true
+    );
+  });
+
+  it('keeps deny-all hooks closed', async () => {
+    const hooks = composeAccessControl(createDenyAllAccessControl(), {
+      canAccessInvitation: async () => true,
+    });
+
+    expect(await hooks.canAccessInvitation!(request, reply, member, { invitationId: 'i' })).toBe(
+      false
+    );
+  });
+});
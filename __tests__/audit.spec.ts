@@ -0,0 +1,221 @@
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import { Writable } from 'node:stream';
+import Fastify, { FastifyInstance } from 'fastify';
+import { vortexPlugin } from '../src/routes';
+import { VortexConfig, createAllowAllAccessControl } from '../src/config';
+import type { VortexClient } from '../src/client';
+import type { VortexAuditEntry } from '../src/audit';
+
+describe('invitation audit trail', () => {
+  let app: FastifyInstance;
+  let lines: Record<string, unknown>[];
+  let entries: VortexAuditEntry[];
+
+  async function buildApp(config: Partial<VortexConfig> = {}) {
+    lines = [];
+    entries = [];
+    const stream = new Writable({
+      write(chunk, _encoding, callback) {
+        lines.push(JSON.parse(chunk.toString()));
+        callback();
+      },
+    });
+
+    app = Fastify({ logger: { level: 'info', stream } });
+    await app.register(vortexPlugin, {
+      prefix: '/api/vortex',
+      config: {
+        apiKey: 'audit-test-key',
+        createClient: () =>
+          ({
+            getInvitationsByTarget: jest.fn(async () => []),
+            getInvitation: jest.fn(async () => ({
+              id: 'inv_1',
+              target: [{ type: 'email', value: 'user-1@example.com' }],
+            })),
+            acceptInvitations: jest.fn(async () => ({ id: 'inv_1', status: 'accepted' })),
+            createInvitation: jest.fn(async () => ({ id: 'inv_1', status: 'queued' })),
+            revokeInvitation: jest.fn(async () => {
+              throw new Error('Vortex API unavailable');
+            }),
+          }) as unknown as VortexClient,
+        authenticateUser: async (request) =>
+          request.headers['x-user-id'] ? { userId: String(request.headers['x-user-id']) } : null,
+        ...createAllowAllAccessControl(),
+        onAudit: async (entry) => {
+          entries.push(entry);
+        },
+        ...config,
+      },
+    });
+  }
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('audits allowed calls with the user, resource, decision and timing', async () => {
+    await buildApp();
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/vortex/invitations?targetType=email&targetValue=invitee@example.com',
+      headers: { 'x-user-id': 'user-1' },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(entries).toEqual([
+      {
+        operation: 'getInvitationsByTarget',
+        method: 'GET',
+        route: '/api/vortex/invitations',
+        userId: 'user-1',
+        resource: { target: { type: 'email', value: 'invitee@example.com' } },
+        decision: { hook: 'canAccessInvitationsByTarget', allowed: true },
+        outcome: 'success',
+        statusCode: 200,
+        upstreamLatencyMs: expect.any(Number),
+        durationMs: expect.any(Number),
+        timestamp: expect.any(String),
+      },
+    ]);
+  });
+
+  it('audits denied attempts and upstream failures', async () => {
+    await buildApp({ canDeleteInvitationsByScope: async (_request, _reply, user) => !!user });
+
+    await app.inject({ method: 'DELETE', url: '/api/vortex/invitations/by-scope/team/team-1' });
+    await app.inject({
+      method: 'DELETE',
+      url: '/api/vortex/invitations/inv_1',
+      headers: { 'x-user-id': 'user-1' },
+    });
+
+    expect(entries[0]).toMatchObject({
+      operation: 'deleteInvitationsByScope',
+      userId: null,
+      resource: { scopeType: 'team', scope: 'team-1' },
+      decision: { hook: 'canDeleteInvitationsByScope', allowed: false },
+      outcome: 'denied',
+      statusCode: 403,
+      errorCode: 'ACCESS_DENIED',
+    });
+    expect(entries[1]).toMatchObject({
+      operation: 'revokeInvitation',
+      resource: { invitationId: 'inv_1' },
+      decision: { hook: 'canDeleteInvitation', allowed: true },
+      outcome: 'error',
+      statusCode: 500,
+      upstreamLatencyMs: expect.any(Number),
+    });
+  });
+
+  it('audits the accepting identity as the target', async () => {
+    await buildApp({
+      authenticateUser: async () => ({ userId: 'user-1', userEmail: 'user-1@example.com' }),
+    });
+    await app.inject({
+      method: 'POST',
+      url: '/api/vortex/invitations/accept',
+      payload: { invitationIds: ['inv_1'] },
+    });
+
+    expect(entries).toEqual([
+      expect.objectContaining({
+        operation: 'acceptInvitations',
+        resource: {
+          invitationIds: ['inv_1'],
+          target: { type: 'email', value: 'user-1@example.com' },
+        },
+        outcome: 'success',
+      }),
+    ]);
+
+    await app.close();
+    await buildApp({ acceptIdentity: 'body' });
+    await app.inject({
+      method: 'POST',
+      url: '/api/vortex/invitations/accept',
+      payload: { invitationIds: ['inv_1'], user: { phone: '+15550100' } },
+    });
+
+    expect(entries[0].resource.target).toEqual({ type: 'phone', value: '+15550100' });
+  });
+
+  it('audits the invitees of created invitations', async () => {
+    await buildApp();
+
+    await app.inject({
+      method: 'POST',
+      url: '/api/vortex/invitations',
+      headers: { 'x-user-id': 'user-1' },
+      payload: {
+        widgetConfigurationId: 'widget-1',
+        targets: [{ type: 'email', value: 'invitee@example.com', name: 'Grace' }],
+      },
+    });
+
+    expect(entries[0]).toMatchObject({
+      operation: 'createInvitation',
+      resource: { targets: [{ type: 'email', value: 'invitee@example.com' }] },
+      decision: { hook: 'canCreateInvitation', allowed: true },
+      outcome: 'success',
+    });
+  });
+
+  it('audits requests rejected before the access check', async () => {
+    await buildApp();
+
+    await app.inject({ method: 'POST', url: '/api/vortex/invitations/%3C%3E/reinvite' });
+
+    expect(entries).toEqual([
+      expect.objectContaining({
+        operation: 'reinvite',
+        decision: null,
+        outcome: 'error',
+        statusCode: 400,
+      }),
+    ]);
+  });
+
+  it('writes redacted info log lines by default and can be disabled', async () => {
+    await buildApp({ onAudit: undefined });
+
+    await app.inject({
+      method: 'GET',
+      url: '/api/vortex/invitations?targetType=email&targetValue=invitee@example.com',
+    });
+
+    expect(lines.find((line) => line.msg === 'Vortex audit')).toMatchObject({
+      level: 30,
+      operation: 'getInvitationsByTarget',
+      resource: { target: { type: 'email', value: 'i***@example.com' } },
+      decision: { hook: 'canAccessInvitationsByTarget', allowed: true },
+    });
+
+    await app.close();
+    await buildApp({ onAudit: false });
+    await app.inject({ method: 'GET', url: '/api/vortex/invitations/by-scope/team/team-1' });
+
+    expect(lines.some((line) => line.msg === 'Vortex audit')).toBe(false);
+  });
+
+  it('does not fail the request when the audit hook throws', async () => {
+    await buildApp({
+      onAudit: async () => {
+        throw new Error('audit store down');
+      },
+    });
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/vortex/invitations?targetType=email&targetValue=invitee@example.com',
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(lines.find((line) => line.msg === 'Vortex audit hook failed')).toMatchObject({
+      level: 40,
+      operation: 'getInvitationsByTarget',
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import { MemoryCacheStore, VortexCache, VortexCacheStore } from '../src/cache';
+import { vortexPlugin } from '../src/routes';
+import { createAllowAllAccessControl } from '../src/config';
+import type { VortexClient } from '../src/client';
+
+describe('MemoryCacheStore', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('evicts the least recently used entry', () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+    store.set('a', 1);
+    store.set('b', 2);
+    store.get('a');
+    store.set('c', 3);
+
+    expect(store.get('a')).toBe(1);
+    expect(store.get('b')).toBeUndefined();
+    expect(store.get('c')).toBe(3);
+  });
+
+  it('expires entries after their TTL', () => {
+    jest.useFakeTimers();
+    const store = new MemoryCacheStore();
+    store.set('a', 1, 1000);
+
+    jest.advanceTimersByTime(999);
+    expect(store.get('a')).toBe(1);
+    jest.advanceTimersByTime(1);
+    expect(store.get('a')).toBeUndefined();
+    expect(store.size).toBe(0);
+  });
+
+  it('copies values in and out', () => {
+    const store = new MemoryCacheStore();
+    const value = { id: 'inv_1' };
+    store.set('a', value);
+    value.id = 'changed';
+    (store.get('a') as { id: string }).id = 'changed';
+
+    expect(store.get('a')).toEqual({ id: 'inv_1' });
+  });
+});
+
+describe('VortexCache', () => {
+  it('falls back to the loader when the store fails', async () => {
+    const onError = jest.fn();
+    const failingStore: VortexCacheStore = {
+      get: () => Promise.reject(new Error('store down')),
+      set: () => Promise.reject(new Error('store down')),
+      delete: () => Promise.reject(new Error('store down')),
+    };
+    const cache = new VortexCache({ store: failingStore, onError });
+
+    await expect(
+      cache.getInvitation('inv_1', async () => ({ id: 'inv_1' }) as any)
+    ).resolves.toEqual({
+      id: 'inv_1',
+    });
+    await expect(cache.invalidateInvitations(['inv_1'])).resolves.toBeUndefined();
+    expect(onError).toHaveBeenCalledWith(new Error('store down'));
+  });
+
+  it('only invalidates on invitation webhook events', async () => {
+    const cache = new VortexCache();
+    const load = jest.fn(async () => ({ id: 'inv_1' }) as any);
+    const event = {
+      id: 'evt_1',
+      timestamp: '2026-01-01T00:00:00Z',
+      accountId: 'acc_1',
+      environmentId: null,
+      sourceTable: 'invitations',
+      operation: 'update' as const,
+    };
+
+    await cache.getInvitation('inv_1', load);
+    await cache.handleWebhookEvent({ ...event, type: 'member.created', data: {} });
+    await cache.getInvitation('inv_1', load);
+    expect(load).toHaveBeenCalledTimes(1);
+
+    await cache.handleWebhookEvent({
+      ...event,
+      type: 'invitation.accepted',
+      data: { invitationId: 'inv_1' },
+    });
+    await cache.getInvitation('inv_1', load);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('cached invitation routes', () => {
+  let app: FastifyInstance;
+  let client: {
+    getInvitation: jest.Mock<(id: string) => Promise<unknown>>;
+    getInvitationsByScope: jest.Mock<() => Promise<unknown[]>>;
+    getInvitationsByTarget: jest.Mock<() => Promise<unknown[]>>;
+    revokeInvitation: jest.Mock<() => Promise<unknown>>;
+    reinvite: jest.Mock<(id: string) => Promise<unknown>>;
+    deleteInvitationsByScope: jest.Mock<() => Promise<unknown>>;
+  };
+
+  beforeEach(async () => {
+    client = {
+      getInvitation: jest.fn(async (id: string) => ({ id, status: 'delivered' })),
+      getInvitationsByScope: jest.fn(async () => [{ id: 'inv_1', status: 'delivered' }]),
+      getInvitationsByTarget: jest.fn(async () => [{ id: 'inv_1', status: 'delivered' }]),
+      revokeInvitation: jest.fn(async () => ({})),
+      reinvite: jest.fn(async (id: string) => ({ id, status: 'queued' })),
+      deleteInvitationsByScope: jest.fn(async () => ({})),
+    };
+
+    app = Fastify();
+    await app.register(vortexPlugin, {
+      prefix: '/api/vortex',
+      config: {
+        apiKey: 'cache-test-key',
+        createClient: () => client as unknown as VortexClient,
+        authenticateUser: async () => ({ userId: 'user-1' }),
+        cache: new VortexCache(),
+        ...createAllowAllAccessControl(),
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const get = (url: string) => app.inject({ method: 'GET', url: `/api/vortex${url}` });
+
+  it('serves repeated reads from the cache', async () => {
+    await get('/invitations/inv_1');
+    await get('/invitations/inv_1');
+    await get('/invitations/by-scope/team/team-1');
+    await get('/invitations/by-scope/team/team-1?status=pending');
+    await get('/invitations?targetType=email&targetValue=a@example.com');
+    await get('/invitations?targetType=email&targetValue=A@example.com');
+
+    expect(client.getInvitation).toHaveBeenCalledTimes(1);
+    expect(client.getInvitationsByScope).toHaveBeenCalledTimes(1);
+    expect(client.getInvitationsByTarget).toHaveBeenCalledTimes(1);
+  });
+
+  it('invalidates the invitation and lists on revoke and reinvite', async () => {
+    await get('/invitations/inv_1');
+    await get('/invitations/by-scope/team/team-1');
+    await app.inject({ method: 'DELETE', url: '/api/vortex/invitations/inv_1' });
+    await get('/invitations/inv_1');
+    await get('/invitations/by-scope/team/team-1');
+
+    expect(client.getInvitation).toHaveBeenCalledTimes(2);
+    expect(client.getInvitationsByScope).toHaveBeenCalledTimes(2);
+
+    await app.inject({ method: 'POST', url: '/api/vortex/invitations/inv_1/reinvite' });
+    await get('/invitations/inv_1');
+    expect(client.getInvitation).toHaveBeenCalledTimes(3);
+  });
+
+  it('clears the cache when deleting by scope', async () => {
+    await get('/invitations/inv_1');
+    await app.inject({ method: 'DELETE', url: '/api/vortex/invitations/by-scope/team/team-1' });
+    await get('/invitations/inv_1');
+
+    expect(client.getInvitation).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache failed reads', async () => {
+    client.getInvitation.mockRejectedValueOnce(new Error('Vortex API request failed: 503'));
+
+    expect((await get('/invitations/inv_1')).statusCode).toBe(502);
+    expect((await get('/invitations/inv_1')).statusCode).toBe(200);
+    expect(client.getInvitation).toHaveBeenCalledTimes(2);
+  });
+});
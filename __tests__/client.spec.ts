@@ -0,0 +1,94 @@
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import { createDefaultVortexClient, getVortexClient, VortexClient } from '../src/client';
+import { vortexPlugin } from '../src/routes';
+import type { VortexConfig } from '../src/config';
+
+describe('Vortex client factory', () => {
+  const apps: FastifyInstance[] = [];
+
+  afterEach(async () => {
+    await Promise.all(apps.splice(0).map((app) => app.close()));
+  });
+
+  it('caches the default client per API key and base URL', () => {
+    const config: VortexConfig = { apiKey: 'key-1', apiBaseUrl: 'http://localhost:1' };
+
+    expect(getVortexClient(config)).toBe(getVortexClient({ ...config }));
+    expect(getVortexClient(config)).not.toBe(getVortexClient({ ...config, apiKey: 'key-2' }));
+    expect(getVortexClient(config)).not.toBe(
+      getVortexClient({ ...config, apiBaseUrl: 'http://localhost:2' })
+    );
+  });
+
+  it('calls a custom factory once per configuration', () => {
+    const fakeClient = {} as VortexClient;
+    const createClient = jest.fn((_config: VortexConfig) => fakeClient);
+
+    const first = getVortexClient({ apiKey: 'key', createClient });
+    const second = getVortexClient({ apiKey: 'key', createClient });
+
+    expect(first).toBe(fakeClient);
+    expect(second).toBe(fakeClient);
+    expect(createClient).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends requests to the configured apiBaseUrl with the node SDK headers', async () => {
+    const upstream = Fastify();
+    apps.push(upstream);
+    upstream.get('/api/v1/invitations/:invitationId', async (request) => ({
+      id: (request.params as { invitationId: string }).invitationId,
+      apiKey: request.headers['x-api-key'],
+      sdkName: request.headers['x-vortex-sdk-name'],
+      sdkVersion: request.headers['x-vortex-sdk-version'],
+    }));
+    const address = await upstream.listen({ port: 0, host: '127.0.0.1' });
+
+    const client = createDefaultVortexClient({ apiKey: 'base-url-key', apiBaseUrl: address });
+    const invitation = await client.getInvitation('inv_123');
+
+    expect(invitation).toEqual({
+      id: 'inv_123',
+      apiKey: 'base-url-key',
+      sdkName: 'vortex-node-sdk',
+      sdkVersion: expect.any(String),
+    });
+    expect(process.env.VORTEX_API_BASE_URL).toBeUndefined();
+  });
+
+  it('reports apiBaseUrl failures like the node SDK', async () => {
+    const upstream = Fastify();
+    apps.push(upstream);
+    upstream.get('/api/v1/invitations/:invitationId', async (_request, reply) =>
+      reply.status(404).send({ error: 'Not found' })
+    );
+    const address = await upstream.listen({ port: 0, host: '127.0.0.1' });
+
+    const client = createDefaultVortexClient({ apiKey: 'base-url-key', apiBaseUrl: `${address}/` });
+
+    await expect(client.getInvitation('inv_404')).rejects.toThrow('Vortex API request failed: 404');
+  });
+
+  it('lets handlers use an injected client', async () => {
+    const fakeClient = {
+      getInvitation: jest.fn(async (invitationId: string) => ({ id: invitationId })),
+    } as unknown as VortexClient;
+
+    const app = Fastify();
+    apps.push(app);
+    await app.register(vortexPlugin, {
+      prefix: '/api/vortex',
+      config: {
+        apiKey: 'injected-key',
+        createClient: () => fakeClient,
+        authenticateUser: async () => ({ userId: 'user-1' }),
+      },
+    });
+
+    const response = await app.inject({ method: 'GET', url: '/api/vortex/invitations/inv_1' });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ id: 'inv_1' });
+    expect(fakeClient.getInvitation).toHaveBeenCalledWith('inv_1');
+  });
+});
@@ -0,0 +1,107 @@
+import crypto from 'node:crypto';
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import { configureVortex, getVortexConfig, VortexConfig } from '../src/config';
+import { vortexPlugin, registerVortexRoutes } from '../src/routes';
+
+function createApiKey(): string {
+  const id = Buffer.from(crypto.randomUUID().replace(/-/g, ''), 'hex').toString('base64url');
+  return `VRTX.${id}.${crypto.randomBytes(16).toString('hex')}`;
+}
+
+function decodeJwtPayload(jwt: string): Record<string, any> {
+  return JSON.parse(Buffer.from(jwt.split('.')[1], 'base64url').toString('utf8'));
+}
+
+function tenantConfig(userId: string, overrides: Partial<VortexConfig> = {}): VortexConfig {
+  return {
+    apiKey: createApiKey(),
+    authenticateUser: async () => ({ userId, userEmail: `${userId}@example.com` }),
+    ...overrides,
+  };
+}
+
+describe('per-instance Vortex configuration', () => {
+  let app: FastifyInstance;
+
+  beforeEach(() => {
+    app = Fastify();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('uses a separate configuration for each plugin registration', async () => {
+    await app.register(vortexPlugin, { prefix: '/a', config: tenantConfig('user-a') });
+    await app.register(vortexPlugin, { prefix: '/b', config: tenantConfig('user-b') });
+
+    const responseA = await app.inject({ method: 'POST', url: '/a/jwt' });
+    const responseB = await app.inject({ method: 'POST', url: '/b/jwt' });
+
+    expect(responseA.statusCode).toBe(200);
+    expect(responseB.statusCode).toBe(200);
+    expect(decodeJwtPayload(responseA.json().jwt).userId).toBe('user-a');
+    expect(decodeJwtPayload(responseB.json().jwt).userId).toBe('user-b');
+  });
+
+  it('applies access control hooks per registration', async () => {
+    await app.register(vortexPlugin, {
+      prefix: '/a',
+      config: tenantConfig('user-a', { canAccessInvitationsByTarget: async () => false }),
+    });
+    await app.register(vortexPlugin, {
+      prefix: '/b',
+      config: tenantConfig('user-b', { authenticateUser: async () => null }),
+    });
+
+    const responseA = await app.inject({ method: 'GET', url: '/a/invitations?targetType=email&targetValue=a%40example.com' });
+    const responseB = await app.inject({ method: 'GET', url: '/b/invitations?targetType=email&targetValue=b%40example.com' });
+
+    expect(responseA.statusCode).toBe(403);
+    expect(responseA.json()).toEqual({ error: 'Access denied', code: 'ACCESS_DENIED' });
+    expect(responseB.statusCode).toBe(403);
+    expect(responseB.json().error).toContain('Configure access control hooks');
+  });
+
+  it('scopes registerVortexRoutes configuration to its own routes', async () => {
+    const config = tenantConfig('user-c');
+    await registerVortexRoutes(app, '/api/c', { config });
+
+    app.get('/outside', async (request) => ({ hasConfig: Boolean(request.server.vortexConfig) }));
+
+    const jwtResponse = await app.inject({ method: 'POST', url: '/api/c/jwt' });
+    const outsideResponse = await app.inject({ method: 'GET', url: '/outside' });
+
+    expect(decodeJwtPayload(jwtResponse.json().jwt).userId).toBe('user-c');
+    expect(outsideResponse.json()).toEqual({ hasConfig: false });
+  });
+
+  it('falls back to the global configuration', async () => {
+    configureVortex(tenantConfig('global-user'));
+    await app.register(vortexPlugin, { prefix: '/global' });
+    await app.register(vortexPlugin, { prefix: '/scoped', config: tenantConfig('scoped-user') });
+
+    const globalResponse = await app.inject({ method: 'POST', url: '/global/jwt' });
+    const scopedResponse = await app.inject({ method: 'POST', url: '/scoped/jwt' });
+
+    expect(decodeJwtPayload(globalResponse.json().jwt).userId).toBe('global-user');
+    expect(decodeJwtPayload(scopedResponse.json().jwt).userId).toBe('scoped-user');
+    expect((await getVortexConfig()).authenticateUser).toBeDefined();
+  });
+
+  it('rejects plugin configuration without an API key', async () => {
+    const previousKey = process.env.VORTEX_API_KEY;
+    delete process.env.VORTEX_API_KEY;
+
+    try {
+      await expect(
+        app.register(vortexPlugin, { prefix: '/bad', config: { apiKey: '' } }).ready()
+      ).rejects.toThrow('API key is required');
+    } finally {
+      if (previousKey !== undefined) {
+        process.env.VORTEX_API_KEY = previousKey;
+      }
+    }
+  });
+});
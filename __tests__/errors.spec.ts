@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import { vortexPlugin } from '../src/routes';
+import { VortexConfig, createAllowAllAccessControl } from '../src/config';
+import type { VortexClient } from '../src/client';
+import {
+  VortexUnauthorizedError,
+  createProblemDetailsFormatter,
+  toVortexHttpError,
+} from '../src/errors';
+
+function upstreamFailure(status: number, statusText: string) {
+  return new Error(`Vortex API request failed: ${status} ${statusText} - {}`);
+}
+
+describe('toVortexHttpError', () => {
+  it.each([
+    [404, 'Not Found', 404, 'INVITATION_NOT_FOUND'],
+    [409, 'Conflict', 409, 'INVITATION_CONFLICT'],
+    [400, 'Bad Request', 422, 'UPSTREAM_REJECTED'],
+    [429, 'Too Many Requests', 502, 'UPSTREAM_UNAVAILABLE'],
+    [503, 'Service Unavailable', 502, 'UPSTREAM_UNAVAILABLE'],
+  ])('maps an upstream %i to %i %s', (upstream, statusText, statusCode, code) => {
+    const error = toVortexHttpError(upstreamFailure(upstream, statusText));
+
+    expect(error).toMatchObject({ statusCode, code, details: { upstreamStatus: upstream } });
+  });
+
+  it('maps network failures and unknown errors', () => {
+    expect(toVortexHttpError(new TypeError('fetch failed')).statusCode).toBe(502);
+    expect(toVortexHttpError(new Error('boom'))).toMatchObject({
+      statusCode: 500,
+      code: 'INTERNAL_ERROR',
+      message: 'An error occurred while processing your request',
+    });
+  });
+});
+
+describe('Vortex error responses', () => {
+  let app: FastifyInstance;
+  let getInvitation: jest.Mock<(id: string) => Promise<unknown>>;
+
+  async function buildApp(config: Partial<VortexConfig> = {}) {
+    app = Fastify();
+    await app.register(vortexPlugin, {
+      prefix: '/api/vortex',
+      config: {
+        apiKey: 'errors-test-key',
+        createClient: () => ({ getInvitation }) as unknown as VortexClient,
+        authenticateUser: async () => ({ userId: 'user-1' }),
+        ...createAllowAllAccessControl(),
+        ...config,
+      },
+    });
+  }
+
+  beforeEach(() => {
+    getInvitation = jest.fn(async () => {
+      throw upstreamFailure(404, 'Not Found');
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('returns the upstream status with a stable code', async () => {
+    await buildApp();
+
+    const response = await app.inject({ method: 'GET', url: '/api/vortex/invitations/inv_1' });
+
+    expect(response.statusCode).toBe(404);
+    expect(response.json()).toEqual({
+      error: 'Invitation not found',
+      code: 'INVITATION_NOT_FOUND',
+      details: { upstreamStatus: 404 },
+    });
+  });
+
+  it('lets authenticateUser reject with a typed error', async () => {
+    await buildApp({
+      authenticateUser: async () => {
+        throw new VortexUnauthorizedError('Session expired');
+      },
+    });
+
+    const response = await app.inject({ method: 'GET', url: '/api/vortex/invitations/inv_1' });
+
+    expect(response.statusCode).toBe(401);
+    expect(response.json()).toEqual({ error: 'Session expired', code: 'UNAUTHORIZED' });
+    expect(getInvitation).not.toHaveBeenCalled();
+  });
+
+  it('formats errors as problem details when configured', async () => {
+    await buildApp({
+      formatError: createProblemDetailsFormatter({ typeBaseUri: 'https://errors.example.com/' }),
+    });
+
+    const response = await app.inject({ method: 'GET', url: '/api/vortex/invitations/inv_1' });
+
+    expect(response.statusCode).toBe(404);
+    expect(response.headers['content-type']).toContain('application/problem+json');
+    expect(response.json()).toEqual({
+      type: 'https://errors.example.com/invitation-not-found',
+      title: 'Not Found',
+      status: 404,
+      detail: 'Invitation not found',
+      instance: '/api/vortex/invitations/inv_1',
+      code: 'INVITATION_NOT_FOUND',
+      details: { upstreamStatus: 404 },
+    });
+  });
+});
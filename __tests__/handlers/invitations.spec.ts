@@ -0,0 +1,479 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import { vortexPlugin } from '../../src/routes';
+import { createScopedAccessControl } from '../../src/access-control';
+import {
+  AuthenticatedUser,
+  CreateInvitationAccessHook,
+  InvitationAccessHook,
+  VortexConfig,
+  createAllowAllAccessControl,
+} from '../../src/config';
+import type { VortexClient } from '../../src/client';
+
+describe('handleCreateInvitation', () => {
+  let app: FastifyInstance;
+  let createInvitation: jest.Mock<(params: unknown) => Promise<unknown>>;
+  let canCreateInvitation: jest.Mock<CreateInvitationAccessHook>;
+  let user: AuthenticatedUser | null;
+
+  beforeEach(async () => {
+    let created = 0;
+    createInvitation = jest.fn(async () => ({
+      id: `inv_${++created}`,
+      shortLink: `https://vrtx.link/${created}`,
+      status: 'queued',
+      createdAt: '2026-01-01T00:00:00Z',
+    }));
+    canCreateInvitation = jest.fn<CreateInvitationAccessHook>(async () => true);
+    user = { userId: 'user-1', userEmail: 'inviter@example.com', name: 'Ada' };
+
+    app = Fastify();
+    await app.register(vortexPlugin, {
+      prefix: '/api/vortex',
+      config: {
+        apiKey: 'create-test-key',
+        createClient: () => ({ createInvitation }) as unknown as VortexClient,
+        authenticateUser: async () => user,
+        canCreateInvitation,
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('creates one invitation per target with the authenticated user as inviter', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/vortex/invitations',
+      payload: {
+        widgetConfigurationId: 'widget-1',
+        targets: [
+          { type: 'email', value: 'invitee@example.com' },
+          { type: 'internal', value: 'user-2' },
+          { type: 'phone', value: '+15550100' },
+        ],
+        scopeId: 'team-1',
+        scopeType: 'team',
+        scopeName: 'Engineering',
+        subtype: 'pymk',
+      },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().invitations.map((invitation: { id: string }) => invitation.id)).toEqual([
+      'inv_1',
+      'inv_2',
+      'inv_3',
+    ]);
+    expect(createInvitation).toHaveBeenCalledWith({
+      widgetConfigurationId: 'widget-1',
+      target: { type: 'email', value: 'invitee@example.com' },
+      inviter: { userId: 'user-1', userEmail: 'inviter@example.com', name: 'Ada' },
+      scopeId: 'team-1',
+      scopeType: 'team',
+      scopeName: 'Engineering',
+      subtype: 'pymk',
+    });
+    expect(canCreateInvitation.mock.calls[0][3]).toEqual({
+      widgetConfigurationId: 'widget-1',
+      targets: [
+        { type: 'email', value: 'invitee@example.com' },
+        { type: 'internal', value: 'user-2' },
+        { type: 'phone', value: '+15550100' },
+      ],
+      deliveryTypes: ['email', 'internal', 'phone'],
+      scope: { scopeId: 'team-1', scopeType: 'team', scopeName: 'Engineering' },
+      inviter: { userId: 'user-1', userEmail: 'inviter@example.com', name: 'Ada' },
+    });
+  });
+
+  it('forwards the target name and avatar', async () => {
+    await app.inject({
+      method: 'POST',
+      url: '/api/vortex/invitations',
+      payload: {
+        widgetConfigurationId: 'widget-1',
+        targets: [
+          {
+            type: 'email',
+            value: 'invitee@example.com',
+            name: 'Grace',
+            avatarUrl: 'https://example.com/grace.png',
+          },
+        ],
+      },
+    });
+
+    expect(createInvitation).toHaveBeenCalledWith(
+      expect.objectContaining({
+        target: {
+          type: 'email',
+          value: 'invitee@example.com',
+          name: 'Grace',
+          avatarUrl: 'https://example.com/grace.png',
+        },
+      })
+    );
+  });
+
+  it('returns 207 with the created and failed targets when some targets fail', async () => {
+    createInvitation.mockImplementation(async (params) => {
+      if ((params as { target: { type: string } }).target.type === 'phone') {
+        throw new Error('Vortex API request failed: 422');
+      }
+      return { id: 'inv_1', status: 'queued' };
+    });
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/vortex/invitations',
+      payload: {
+        widgetConfigurationId: 'widget-1',
+        targets: [
+          { type: 'email', value: 'invitee@example.com' },
+          { type: 'phone', value: '+15550100' },
+        ],
+      },
+    });
+
+    expect(response.statusCode).toBe(207);
+    expect(response.json()).toEqual({
+      invitations: [{ id: 'inv_1', status: 'queued' }],
+      failed: [
+        {
+          target: { type: 'phone', value: '+15550100' },
+          statusCode: 422,
+          error: expect.any(String),
+          code: expect.any(String),
+        },
+      ],
+    });
+  });
+
+  it('fails the request when no invitation was created', async () => {
+    createInvitation.mockRejectedValue(new Error('Vortex API request failed: 422'));
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/vortex/invitations',
+      payload: {
+        widgetConfigurationId: 'widget-1',
+        targets: [
+          { type: 'email', value: 'invitee@example.com' },
+          { type: 'phone', value: '+15550100' },
+        ],
+      },
+    });
+
+    expect(response.statusCode).toBe(422);
+  });
+
+  it('returns 403 when canCreateInvitation denies the request', async () => {
+    canCreateInvitation.mockResolvedValue(false);
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/vortex/invitations',
+      payload: {
+        widgetConfigurationId: 'widget-1',
+        targets: [{ type: 'phone', value: '+15550100' }],
+      },
+    });
+
+    expect(response.statusCode).toBe(403);
+    expect(createInvitation).not.toHaveBeenCalled();
+  });
+
+  it('requires an authenticated inviter', async () => {
+    user = null;
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/vortex/invitations',
+      payload: {
+        widgetConfigurationId: 'widget-1',
+        targets: [{ type: 'internal', value: 'user-2' }],
+      },
+    });
+
+    expect(response.statusCode).toBe(401);
+    expect(response.json().code).toBe('UNAUTHORIZED');
+    expect(canCreateInvitation).not.toHaveBeenCalled();
+    expect(createInvitation).not.toHaveBeenCalled();
+  });
+
+  it('rejects share targets, targets without a value and a scopeId without a scopeType', async () => {
+    const share = await app.inject({
+      method: 'POST',
+      url: '/api/vortex/invitations',
+      payload: { widgetConfigurationId: 'widget-1', targets: [{ type: 'share' }] },
+    });
+    const missingValue = await app.inject({
+      method: 'POST',
+      url: '/api/vortex/invitations',
+      payload: { widgetConfigurationId: 'widget-1', targets: [{ type: 'email' }] },
+    });
+    const missingScopeType = await app.inject({
+      method: 'POST',
+      url: '/api/vortex/invitations',
+      payload: {
+        widgetConfigurationId: 'widget-1',
+        targets: [{ type: 'internal', value: 'user-2' }],
+        scopeId: 'team-1',
+      },
+    });
+
+    expect(share.statusCode).toBe(400);
+    expect(missingValue.statusCode).toBe(400);
+    expect(missingScopeType.statusCode).toBe(400);
+    expect(canCreateInvitation).not.toHaveBeenCalled();
+  });
+});
+
+describe('prefetchInvitation', () => {
+  const invitation = {
+    id: 'inv_1',
+    status: 'delivered',
+    foreignCreatorId: 'user-1',
+    scopes: [{ type: 'team', scopeId: 'team-1' }],
+    target: [{ type: 'email', value: 'invitee@example.com' }],
+    formSubmissionData: { secret: 'value' },
+  };
+  let app: FastifyInstance;
+  let client: Record<string, jest.Mock<(...args: unknown[]) => Promise<unknown>>>;
+
+  async function buildApp(config: Partial<VortexConfig>) {
+    client = {
+      getInvitation: jest.fn(async () => invitation),
+      revokeInvitation: jest.fn(async () => ({})),
+      reinvite: jest.fn(async () => invitation),
+    };
+    app = Fastify();
+    await app.register(vortexPlugin, {
+      prefix: '/api/vortex',
+      config: {
+        apiKey: 'prefetch-test-key',
+        createClient: () => client as unknown as VortexClient,
+        authenticateUser: async () => ({ userId: 'user-2', adminScopes: ['team:team-1'] }),
+        ...config,
+      },
+    });
+  }
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('passes the fetched invitation to the hook and reuses it for the response', async () => {
+    const canAccessInvitation = jest.fn<InvitationAccessHook>(async () => true);
+    await buildApp({
+      prefetchInvitation: true,
+      canAccessInvitation,
+      filterInvitation: (_request, _reply, _user, { formSubmissionData: _omit, ...rest }) => rest,
+    });
+
+    const response = await app.inject({ method: 'GET', url: '/api/vortex/invitations/inv_1' });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).not.toHaveProperty('formSubmissionData');
+    expect(canAccessInvitation.mock.calls[0][3]).toEqual({ invitationId: 'inv_1', invitation });
+    expect(client.getInvitation).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets scoped access control authorize revokes from the invitation scopes', async () => {
+    await buildApp({ prefetchInvitation: true, ...createScopedAccessControl() });
+
+    const response = await app.inject({ method: 'DELETE', url: '/api/vortex/invitations/inv_1' });
+
+    expect(response.statusCode).toBe(200);
+    expect(client.revokeInvitation).toHaveBeenCalledWith('inv_1');
+  });
+
+  it('denies anonymous reads without looking the invitation up', async () => {
+    await buildApp({ prefetchInvitation: true, authenticateUser: async () => null });
+    client.getInvitation.mockRejectedValue(new Error('Vortex API request failed: 404'));
+
+    const response = await app.inject({ method: 'GET', url: '/api/vortex/invitations/missing' });
+
+    expect(response.statusCode).toBe(403);
+    expect(client.getInvitation).not.toHaveBeenCalled();
+  });
+
+  it('only passes the invitation ID when disabled', async () => {
+    const canReinvite = jest.fn<InvitationAccessHook>(async () => true);
+    await buildApp({ canReinvite });
+
+    await app.inject({ method: 'POST', url: '/api/vortex/invitations/inv_1/reinvite' });
+
+    expect(canReinvite.mock.calls[0][3]).toEqual({ invitationId: 'inv_1' });
+    expect(client.getInvitation).not.toHaveBeenCalled();
+  });
+});
+
+describe('list filtering', () => {
+  let app: FastifyInstance;
+
+  async function buildApp(config: Partial<VortexConfig>) {
+    app = Fastify();
+    await app.register(vortexPlugin, {
+      prefix: '/api/vortex',
+      config: {
+        apiKey: 'filter-test-key',
+        createClient: () =>
+          ({
+            getInvitationsByScope: jest.fn(async () => [
+              {
+                id: 'inv_1',
+                foreignCreatorId: 'user-1',
+                target: [{ type: 'email', value: 'one@example.com' }],
+              },
+              {
+                id: 'inv_2',
+                foreignCreatorId: 'user-2',
+                target: [{ type: 'email', value: 'two@example.com' }],
+              },
+            ]),
+          }) as unknown as VortexClient,
+        authenticateUser: async () => ({ userId: 'user-1' }),
+        ...createAllowAllAccessControl(),
+        ...config,
+      },
+    });
+  }
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('applies filterInvitations and the field projection', async () => {
+    await buildApp({
+      filterInvitations: (_request, user, invitations) =>
+        invitations.filter((invitation) => invitation.foreignCreatorId === user?.userId),
+      invitationProjection: (_request, user) =>
+        user?.role === 'admin' ? null : { exclude: ['target.value'] },
+    });
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/vortex/invitations/by-scope/team/team-1',
+    });
+
+    expect(response.json()).toEqual({
+      invitations: [{ id: 'inv_1', foreignCreatorId: 'user-1', target: [{ type: 'email' }] }],
+      nextCursor: null,
+      total: 1,
+    });
+  });
+
+  it('keeps only included fields', async () => {
+    await buildApp({ invitationProjection: { include: ['id', 'target.type'] } });
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/vortex/invitations/by-scope/team/team-1',
+    });
+
+    expect(response.json().invitations).toEqual([
+      { id: 'inv_1', target: [{ type: 'email' }] },
+      { id: 'inv_2', target: [{ type: 'email' }] },
+    ]);
+  });
+});
+
+describe('handleAcceptInvitations', () => {
+  const invitations: Record<string, unknown> = {
+    inv_1: { id: 'inv_1', target: [{ type: 'email', value: 'Member@Example.com' }] },
+    inv_2: { id: 'inv_2', target: [{ type: 'email', value: 'someone-else@example.com' }] },
+    inv_3: { id: 'inv_3', target: [{ type: 'share', value: 'link-1' }] },
+  };
+  let app: FastifyInstance;
+  let client: Record<string, jest.Mock<(...args: unknown[]) => Promise<unknown>>>;
+  let user: AuthenticatedUser | null;
+
+  beforeEach(async () => {
+    client = {
+      getInvitation: jest.fn(async (id) => {
+        if (!invitations[id as string]) {
+          throw new Error('Vortex API request failed: 404 Not Found - {}');
+        }
+        return invitations[id as string];
+      }),
+      acceptInvitations: jest.fn(async () => ({ id: 'inv_1', status: 'accepted' })),
+    };
+    user = { userId: 'user-1', userEmail: 'member@example.com', name: 'Member' };
+    app = Fastify();
+    await app.register(vortexPlugin, {
+      prefix: '/api/vortex',
+      config: {
+        apiKey: 'accept-test-key',
+        createClient: () => client as unknown as VortexClient,
+        authenticateUser: async () => user,
+        ...createAllowAllAccessControl(),
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const accept = (payload: Record<string, unknown>) =>
+    app.inject({ method: 'POST', url: '/api/vortex/invitations/accept', payload });
+
+  it('accepts as the authenticated user when the body has no identity', async () => {
+    const response = await accept({ invitationIds: ['inv_1', 'inv_3'] });
+
+    expect(response.statusCode).toBe(200);
+    expect(client.acceptInvitations).toHaveBeenCalledWith(['inv_1', 'inv_3'], {
+      email: 'member@example.com',
+      name: 'Member',
+    });
+  });
+
+  it('rejects a body identity that is not the authenticated user', async () => {
+    const matching = await accept({
+      invitationIds: ['inv_1'],
+      user: { email: 'MEMBER@example.com' },
+    });
+    const other = await accept({
+      invitationIds: ['inv_1'],
+      user: { email: 'someone-else@example.com' },
+    });
+    user = null;
+    const anonymous = await accept({ invitationIds: ['inv_1'] });
+
+    expect(matching.statusCode).toBe(200);
+    expect(other.statusCode).toBe(403);
+    expect(other.json()).toMatchObject({ code: 'ACCESS_DENIED' });
+    expect(anonymous.statusCode).toBe(401);
+    expect(client.acceptInvitations).toHaveBeenCalledTimes(1);
+  });
+
+  it('lists each invitation that is not addressed to the user', async () => {
+    const response = await accept({ invitationIds: ['inv_1', 'inv_2', 'inv_missing'] });
+
+    expect(response.statusCode).toBe(403);
+    expect(response.json()).toEqual({
+      error: 'Some invitations cannot be accepted by the authenticated user',
+      code: 'INVITATION_TARGET_MISMATCH',
+      details: {
+        invitations: [
+          {
+            invitationId: 'inv_2',
+            code: 'INVITATION_TARGET_MISMATCH',
+            message: 'The invitation is not addressed to the authenticated user',
+          },
+          {
+            invitationId: 'inv_missing',
+            code: 'INVITATION_NOT_FOUND',
+            message: expect.any(String),
+          },
+        ],
+      },
+    });
+    expect(client.acceptInvitations).not.toHaveBeenCalled();
+  });
+});
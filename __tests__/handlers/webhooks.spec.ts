@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, jest } from '@jest/globals';
 import type { FastifyRequest, FastifyReply } from 'fastify';
 import { createVortexWebhookHandler } from '../../src/handlers/webhooks';
+import { VortexCache } from '../../src/cache';
 import { VortexWebhooks, VortexWebhookEvent } from '@teamvortexsoftware/vortex-node-22-sdk';
 import crypto from 'node:crypto';
 
@@ -217,4 +218,162 @@ describe('createVortexWebhookHandler', () => {
     expect(error.name).toBe('VortexWebhookSignatureError');
     expect(mockReply.status).toHaveBeenCalledWith(401);
   });
+
+  it('invalidates the cache before calling handlers', async () => {
+    const payload = JSON.stringify(sampleWebhookEvent);
+    mockRequest.headers = {
+      'x-vortex-signature': sign(payload),
+    };
+    (mockRequest as any).rawBody = Buffer.from(payload);
+
+    const cache = new VortexCache();
+    const invalidate = jest.spyOn(cache, 'invalidateInvitations');
+    const onEventMock = jest.fn(() => {
+      expect(invalidate).toHaveBeenCalledWith(['inv_abc']);
+    });
+    const handler = createVortexWebhookHandler(webhooks, { onEvent: onEventMock }, { cache });
+
+    await handler(mockRequest as FastifyRequest, mockReply as FastifyReply);
+
+    expect(onEventMock).toHaveBeenCalled();
+    expect(mockReply.status).toHaveBeenCalledWith(200);
+  });
+});
+
+describe('createVortexWebhookHandler replayProtection', () => {
+  let webhooks: VortexWebhooks;
+  let mockReply: Partial<FastifyReply>;
+
+  beforeEach(() => {
+    webhooks = new VortexWebhooks({ secret: TEST_SECRET });
+    mockReply = {
+      status: jest.fn().mockReturnThis() as any,
+      send: jest.fn().mockReturnThis() as any,
+    };
+  });
+
+  function deliver(event: VortexWebhookEvent) {
+    const payload = JSON.stringify(event);
+    return {
+      headers: { 'x-vortex-signature': sign(payload) },
+      rawBody: Buffer.from(payload),
+    } as unknown as FastifyRequest;
+  }
+
+  const freshEvent = () => ({ ...sampleWebhookEvent, timestamp: new Date().toISOString() });
+
+  it('runs handlers once per event id and acknowledges redeliveries', async () => {
+    const onEventMock = jest.fn();
+    const handler = createVortexWebhookHandler(webhooks, { onEvent: onEventMock }, { replayProtection: true });
+    const event = freshEvent();
+
+    await handler(deliver(event), mockReply as FastifyReply);
+    await handler(deliver(event), mockReply as FastifyReply);
+
+    expect(onEventMock).toHaveBeenCalledTimes(1);
+    expect(mockReply.send).toHaveBeenLastCalledWith({ received: true, duplicate: true });
+  });
+
+  it('rejects events outside the tolerance window', async () => {
+    const onEventMock = jest.fn();
+    const handler = createVortexWebhookHandler(
+      webhooks,
+      { onEvent: onEventMock },
+      { replayProtection: { toleranceMs: 60_000 } }
+    );
+
+    await handler(deliver(sampleWebhookEvent), mockReply as FastifyReply);
+
+    expect(onEventMock).not.toHaveBeenCalled();
+    expect(mockReply.status).toHaveBeenCalledWith(400);
+  });
+
+  it('processes a redelivery again when the handlers failed', async () => {
+    const onEventMock = jest.fn<() => Promise<void>>()
+      .mockRejectedValueOnce(new Error('provisioning failed'))
+      .mockResolvedValueOnce(undefined);
+    const handler = createVortexWebhookHandler(webhooks, { onEvent: onEventMock }, { replayProtection: true });
+    const event = freshEvent();
+
+    await handler(deliver(event), mockReply as FastifyReply);
+    expect(mockReply.status).toHaveBeenLastCalledWith(500);
+    await handler(deliver(event), mockReply as FastifyReply);
+
+    expect(onEventMock).toHaveBeenCalledTimes(2);
+    expect(mockReply.send).toHaveBeenLastCalledWith({ received: true });
+  });
+
+  it('rejects a retry of a failed event that arrives after the tolerance window', async () => {
+    const onEventMock = jest.fn<() => Promise<void>>().mockRejectedValue(new Error('down'));
+    const handler = createVortexWebhookHandler(
+      webhooks,
+      { onEvent: onEventMock },
+      { replayProtection: { toleranceMs: 60_000 } }
+    );
+    const event = freshEvent();
+
+    await handler(deliver(event), mockReply as FastifyReply);
+    const later = jest.spyOn(Date, 'now').mockReturnValue(Date.parse(event.timestamp) + 120_000);
+    await handler(deliver(event), mockReply as FastifyReply);
+    later.mockRestore();
+
+    expect(onEventMock).toHaveBeenCalledTimes(1);
+    expect(mockReply.status).toHaveBeenLastCalledWith(400);
+  });
+});
+
+describe('createVortexWebhookHandler with several secrets', () => {
+  const OLD_SECRET = 'whsec_old_secret';
+  let mockReply: Partial<FastifyReply>;
+
+  beforeEach(() => {
+    mockReply = {
+      status: jest.fn().mockReturnThis() as any,
+      send: jest.fn().mockReturnThis() as any,
+    };
+  });
+
+  function deliver(secret: string) {
+    const payload = JSON.stringify(sampleWebhookEvent);
+    return {
+      headers: { 'x-vortex-signature': sign(payload, secret) },
+      rawBody: Buffer.from(payload),
+    } as unknown as FastifyRequest;
+  }
+
+  it('accepts a signature matching any active secret and reports which one matched', async () => {
+    const onSecretMatch = jest.fn();
+    const handler = createVortexWebhookHandler(
+      [{ id: 'current', secret: TEST_SECRET }, { id: 'previous', secret: OLD_SECRET }],
+      {},
+      { onSecretMatch }
+    );
+
+    await handler(deliver(OLD_SECRET), mockReply as FastifyReply);
+    await handler(deliver(TEST_SECRET), mockReply as FastifyReply);
+
+    expect(mockReply.status).toHaveBeenNthCalledWith(1, 200);
+    expect(onSecretMatch).toHaveBeenNthCalledWith(1, { index: 1, id: 'previous' }, sampleWebhookEvent);
+    expect(onSecretMatch).toHaveBeenNthCalledWith(2, { index: 0, id: 'current' }, sampleWebhookEvent);
+  });
+
+  it('resolves secrets by account and environment', async () => {
+    const resolver = jest.fn(() => [TEST_SECRET]);
+    const handler = createVortexWebhookHandler(resolver, {});
+
+    await handler(deliver(TEST_SECRET), mockReply as FastifyReply);
+
+    expect(resolver).toHaveBeenCalledWith({ accountId: 'acc_456', environmentId: 'env_789' });
+    expect(mockReply.status).toHaveBeenCalledWith(200);
+  });
+
+  it('returns 401 when no secret matches', async () => {
+    const onErrorMock = jest.fn();
+    const handler = createVortexWebhookHandler([TEST_SECRET], { onError: onErrorMock });
+
+    await handler(deliver(OLD_SECRET), mockReply as FastifyReply);
+
+    expect(mockReply.status).toHaveBeenCalledWith(401);
+    expect((onErrorMock.mock.calls[0] as any)[0].name).toBe('VortexWebhookSignatureError');
+  });
 });
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import { vortexPlugin } from '../src/routes';
+import { createAllowAllAccessControl } from '../src/config';
+import type { VortexClient } from '../src/client';
+import { VortexAccessDeniedError } from '../src/errors';
+
+describe('vortexPlugin idempotency option', () => {
+  let app: FastifyInstance;
+  let userId: string | null;
+  let client: {
+    acceptInvitations: jest.Mock<() => Promise<unknown>>;
+    revokeInvitation: jest.Mock<() => Promise<unknown>>;
+  };
+
+  beforeEach(async () => {
+    userId = 'user-1';
+    client = {
+      acceptInvitations: jest.fn(async () => ({ id: 'inv_1', status: 'accepted' })),
+      revokeInvitation: jest.fn(async () => ({})),
+    };
+
+    app = Fastify();
+    await app.register(vortexPlugin, {
+      prefix: '/api/vortex',
+      idempotency: true,
+      config: {
+        apiKey: 'idempotency-key',
+        createClient: () => client as unknown as VortexClient,
+        authenticateUser: async () => (userId ? { userId } : null),
+        ...createAllowAllAccessControl(),
+        acceptIdentity: 'body',
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const accept = (key: string, email = 'invitee@example.com', remoteAddress?: string) =>
+    app.inject({
+      method: 'POST',
+      url: '/api/vortex/invitations/accept',
+      remoteAddress,
+      headers: { 'idempotency-key': key },
+      payload: { invitationIds: ['inv_1'], user: { email } },
+    });
+
+  it('replays the first response for a repeated key', async () => {
+    const first = await accept('key-1');
+    const second = await accept('key-1');
+
+    expect(client.acceptInvitations).toHaveBeenCalledTimes(1);
+    expect(second.statusCode).toBe(200);
+    expect(second.headers['idempotent-replayed']).toBe('true');
+    expect(second.headers['content-type']).toBe(first.headers['content-type']);
+    expect(second.json()).toEqual(first.json());
+  });
+
+  it('scopes keys per user and leaves requests without a key alone', async () => {
+    await accept('key-1');
+    userId = 'user-2';
+    await accept('key-1');
+    await app.inject({
+      method: 'POST',
+      url: '/api/vortex/invitations/accept',
+      payload: { invitationIds: ['inv_1'], user: { email: 'invitee@example.com' } },
+    });
+
+    expect(client.acceptInvitations).toHaveBeenCalledTimes(3);
+  });
+
+  it('scopes anonymous keys by client IP', async () => {
+    userId = null;
+
+    await accept('key-1', 'invitee@example.com', '10.0.0.1');
+    const otherClient = await accept('key-1', 'invitee@example.com', '10.0.0.2');
+    const sameClient = await accept('key-1', 'invitee@example.com', '10.0.0.1');
+
+    expect(otherClient.headers['idempotent-replayed']).toBeUndefined();
+    expect(sameClient.headers['idempotent-replayed']).toBe('true');
+    expect(client.acceptInvitations).toHaveBeenCalledTimes(2);
+  });
+
+  it('answers 409 while the first request is in flight', async () => {
+    let finish!: () => void;
+    client.revokeInvitation.mockImplementationOnce(
+      () => new Promise((resolve) => (finish = () => resolve({})))
+    );
+    const revoke = () =>
+      app.inject({
+        method: 'DELETE',
+        url: '/api/vortex/invitations/inv_1',
+        headers: { 'idempotency-key': 'key-1' },
+      });
+
+    const first = revoke();
+    await new Promise((resolve) => setImmediate(resolve));
+    const duplicate = await revoke();
+    finish();
+
+    expect(duplicate.statusCode).toBe(409);
+    expect(duplicate.json()).toMatchObject({ code: 'IDEMPOTENCY_KEY_IN_USE' });
+    expect((await first).statusCode).toBe(200);
+    expect(client.revokeInvitation).toHaveBeenCalledTimes(1);
+  });
+
+  it('answers 422 when a key is reused with a different body', async () => {
+    await accept('key-1');
+    const response = await accept('key-1', 'someone-else@example.com');
+
+    expect(response.statusCode).toBe(422);
+    expect(response.json()).toMatchObject({ code: 'IDEMPOTENCY_KEY_REUSED' });
+  });
+
+  it('does not store server errors, so the request can be retried', async () => {
+    client.acceptInvitations.mockRejectedValueOnce(new Error('Vortex API request failed: 500'));
+
+    expect((await accept('key-1')).statusCode).toBe(502);
+    expect((await accept('key-1')).statusCode).toBe(200);
+    expect(client.acceptInvitations).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not store authorization failures', async () => {
+    client.acceptInvitations.mockRejectedValueOnce(new VortexAccessDeniedError());
+
+    expect((await accept('key-1')).statusCode).toBe(403);
+    expect((await accept('key-1')).statusCode).toBe(200);
+    expect(client.acceptInvitations).toHaveBeenCalledTimes(2);
+  });
+});
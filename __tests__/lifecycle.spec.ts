@@ -0,0 +1,156 @@
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import { vortexPlugin } from '../src/routes';
+import { VortexConfig, createAllowAllAccessControl } from '../src/config';
+import { VortexConflictError } from '../src/errors';
+import type { VortexClient } from '../src/client';
+
+describe('operation lifecycle hooks', () => {
+  let app: FastifyInstance;
+  let client: {
+    acceptInvitations: jest.Mock<(ids: string[], user: unknown) => Promise<unknown>>;
+    revokeInvitation: jest.Mock<(id: string) => Promise<void>>;
+    deleteInvitationsByScope: jest.Mock<(scopeType: string, scope: string) => Promise<void>>;
+    syncInternalInvitation: jest.Mock<(params: unknown) => Promise<unknown>>;
+    generateJwt: jest.Mock<(params: unknown) => string>;
+  };
+
+  async function buildApp(config: Partial<VortexConfig>) {
+    client = {
+      acceptInvitations: jest.fn(async (ids: string[]) => ({ id: ids[0], status: 'accepted' })),
+      revokeInvitation: jest.fn(async () => {}),
+      deleteInvitationsByScope: jest.fn(async () => {}),
+      syncInternalInvitation: jest.fn(async () => ({ processed: 1, invitationIds: ['inv_1'] })),
+      generateJwt: jest.fn(() => 'signed.jwt'),
+    };
+    app = Fastify();
+    await app.register(vortexPlugin, {
+      prefix: '/api/vortex',
+      config: {
+        apiKey: 'lifecycle-test-key',
+        createClient: () => client as unknown as VortexClient,
+        authenticateUser: async () => ({ userId: 'user-1', userEmail: 'user@example.com' }),
+        ...createAllowAllAccessControl(),
+        acceptIdentity: 'body',
+        ...config,
+      },
+    });
+  }
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('lets before hooks mutate the input and after hooks transform the response', async () => {
+    const afterAcceptInvitations = jest.fn(async (result: any, _input: unknown, context: any) => ({
+      ...result,
+      acceptedBy: context.user.userId,
+    }));
+    await buildApp({
+      beforeAcceptInvitations: (input) => {
+        input.acceptUser = { ...input.acceptUser, name: 'Ada' };
+      },
+      afterAcceptInvitations,
+    });
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/vortex/invitations/accept',
+      payload: { invitationIds: ['inv_1'], user: { email: 'invitee@example.com' } },
+    });
+
+    expect(client.acceptInvitations).toHaveBeenCalledWith(['inv_1'], {
+      email: 'invitee@example.com',
+      name: 'Ada',
+    });
+    expect(afterAcceptInvitations).toHaveBeenCalledWith(
+      { id: 'inv_1', status: 'accepted' },
+      expect.objectContaining({ invitationIds: ['inv_1'] }),
+      expect.objectContaining({ request: expect.anything(), reply: expect.anything() })
+    );
+    expect(response.json()).toEqual({ id: 'inv_1', status: 'accepted', acceptedBy: 'user-1' });
+  });
+
+  it('uses the input a before hook returns', async () => {
+    await buildApp({
+      beforeDeleteInvitationsByScope: ({ scopeType, scope }) => ({
+        scopeType,
+        scope: `tenant-1:${scope}`,
+      }),
+    });
+
+    await app.inject({ method: 'DELETE', url: '/api/vortex/invitations/by-scope/team/team-1' });
+
+    expect(client.deleteInvitationsByScope).toHaveBeenCalledWith('team', 'tenant-1:team-1');
+  });
+
+  it('vetoes the operation with the error a before hook throws', async () => {
+    const afterRevokeInvitation = jest.fn();
+    await buildApp({
+      beforeRevokeInvitation: async () => {
+        throw new VortexConflictError('Invitation is locked');
+      },
+      afterRevokeInvitation,
+    });
+
+    const response = await app.inject({ method: 'DELETE', url: '/api/vortex/invitations/inv_1' });
+
+    expect(response.statusCode).toBe(409);
+    expect(response.json()).toMatchObject({
+      error: 'Invitation is locked',
+      code: 'INVITATION_CONFLICT',
+    });
+    expect(client.revokeInvitation).not.toHaveBeenCalled();
+    expect(afterRevokeInvitation).not.toHaveBeenCalled();
+  });
+
+  it('sends fields an after hook adds to the response', async () => {
+    await buildApp({
+      afterRevokeInvitation: (result, { invitationId }) => ({ ...result, invitationId }),
+      afterGenerateJwt: ({ jwt }) => ({ jwt, expiresIn: 3600 }) as { jwt: string },
+    });
+
+    const revoked = await app.inject({ method: 'DELETE', url: '/api/vortex/invitations/inv_1' });
+    const jwt = await app.inject({ method: 'POST', url: '/api/vortex/jwt' });
+
+    expect(revoked.json()).toEqual({ success: true, invitationId: 'inv_1' });
+    expect(jwt.json()).toEqual({ jwt: 'signed.jwt', expiresIn: 3600 });
+  });
+
+  it('runs after the sync and JWT operations', async () => {
+    const afterSyncInternalInvitation = jest.fn();
+    await buildApp({
+      afterSyncInternalInvitation,
+      beforeGenerateJwt: (input) => ({ ...input, attributes: { plan: 'pro' } }),
+      afterGenerateJwt: ({ jwt }) => ({ jwt: `Bearer ${jwt}` }),
+    });
+
+    const synced = await app.inject({
+      method: 'POST',
+      url: '/api/vortex/invitations/sync-internal-invitation',
+      payload: {
+        creatorId: 'user-1',
+        targetValue: 'user-2',
+        action: 'accepted',
+        componentId: 'component-1',
+      },
+    });
+    const jwt = await app.inject({ method: 'POST', url: '/api/vortex/jwt' });
+
+    expect(synced.json()).toEqual({ processed: 1, invitationIds: ['inv_1'] });
+    expect(afterSyncInternalInvitation).toHaveBeenCalledWith(
+      { processed: 1, invitationIds: ['inv_1'] },
+      {
+        creatorId: 'user-1',
+        targetValue: 'user-2',
+        action: 'accepted',
+        componentId: 'component-1',
+      },
+      expect.anything()
+    );
+    expect(client.generateJwt).toHaveBeenCalledWith(
+      expect.objectContaining({ attributes: { plan: 'pro' } })
+    );
+    expect(jwt.json()).toEqual({ jwt: 'Bearer signed.jwt' });
+  });
+});
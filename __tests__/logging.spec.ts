@@ -0,0 +1,139 @@
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import { Writable } from 'node:stream';
+import Fastify, { FastifyInstance } from 'fastify';
+import { vortexPlugin } from '../src/routes';
+import { VortexConfig, createAllowAllAccessControl } from '../src/config';
+import type { VortexClient } from '../src/client';
+import { redactLogValue, redactString } from '../src/logging';
+
+describe('log redaction', () => {
+  it('masks emails, phone numbers and secrets', () => {
+    expect(redactString('invite alice@example.com', ['VRTX.secret'])).toBe(
+      'invite a***@example.com'
+    );
+    expect(redactString('call +1 (555) 123-4567 now')).toBe('call ***4567 now');
+    expect(redactString('call (555) 123-4567 or 555.123.4567')).toBe('call ***4567 or ***4567');
+    expect(redactString('key VRTX.secret leaked', ['VRTX.secret'])).toBe('key [REDACTED] leaked');
+  });
+
+  it('leaves dates, timestamps and numeric IDs intact', () => {
+    const message =
+      'invitation 12345678901 created 2026-10-19 at 1792368000 (2026-10-19T12:00:00.000Z)';
+
+    expect(redactString(message)).toBe(message);
+    expect(redactString('order 2026-10-19/98765432 retried')).toBe(
+      'order 2026-10-19/98765432 retried'
+    );
+  });
+
+  it('masks phone fields and phone targets in any format', () => {
+    expect(
+      redactLogValue({ phone: '5551234567', target: { type: 'phone', value: '5551234567' } })
+    ).toEqual({ phone: '***4567', target: { type: 'phone', value: '***4567' } });
+  });
+
+  it('leaves IDs intact and masks secret-named fields', () => {
+    expect(
+      redactLogValue({
+        invitationId: '9f1c2d3e-1234-5678-9abc-def012345678',
+        authorization: 'Bearer abc',
+        target: [{ value: 'bob@example.org' }],
+      })
+    ).toEqual({
+      invitationId: '9f1c2d3e-1234-5678-9abc-def012345678',
+      authorization: '[REDACTED]',
+      target: [{ value: 'b***@example.org' }],
+    });
+  });
+});
+
+describe('Vortex request logging', () => {
+  const apiKey = 'VRTX.logging-test.key';
+  let app: FastifyInstance;
+  let lines: Record<string, unknown>[];
+
+  async function buildApp(config: Partial<VortexConfig> = {}) {
+    lines = [];
+    const stream = new Writable({
+      write(chunk, _encoding, callback) {
+        lines.push(JSON.parse(chunk.toString()));
+        callback();
+      },
+    });
+
+    app = Fastify({ logger: { level: 'debug', stream } });
+    await app.register(vortexPlugin, {
+      prefix: '/api/vortex',
+      config: {
+        apiKey,
+        createClient: () =>
+          ({
+            getInvitation: jest.fn(async () => {
+              throw new Error(`Request for carol@example.com with ${apiKey} failed`);
+            }),
+            getInvitationsByScope: jest.fn(async () => []),
+          }) as unknown as VortexClient,
+        authenticateUser: async () => ({ userId: 'user-1', userEmail: 'user@example.com' }),
+        ...createAllowAllAccessControl(),
+        ...config,
+      },
+    });
+  }
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('logs failures through request.log with structured, redacted fields', async () => {
+    await buildApp();
+
+    const response = await app.inject({ method: 'GET', url: '/api/vortex/invitations/inv_1' });
+
+    expect(response.statusCode).toBe(500);
+    const failure = lines.find((line) => line.msg === 'Vortex request failed');
+    expect(failure).toMatchObject({
+      level: 50,
+      reqId: expect.any(String),
+      operation: 'getInvitation',
+      route: '/api/vortex/invitations/:invitationId',
+      invitationId: 'inv_1',
+      userId: 'user-1',
+      upstreamLatencyMs: expect.any(Number),
+      code: 'INTERNAL_ERROR',
+      error: { type: 'Error', message: 'Request for c***@example.com with [REDACTED] failed' },
+    });
+    expect(JSON.stringify(lines)).not.toContain(apiKey);
+  });
+
+  it('logs upstream latency for successful calls', async () => {
+    await buildApp();
+
+    await app.inject({ method: 'GET', url: '/api/vortex/invitations/by-scope/team/team-1' });
+
+    expect(lines.find((line) => line.msg === 'Vortex API call completed')).toMatchObject({
+      level: 20,
+      operation: 'getInvitationsByScope',
+      scopeType: 'team',
+      scope: 'team-1',
+      upstreamLatencyMs: expect.any(Number),
+    });
+  });
+
+  it('uses the configured logger instead of request.log', async () => {
+    const logger = {
+      error: jest.fn(),
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+    };
+    await buildApp({ logger: logger as unknown as VortexConfig['logger'] });
+
+    await app.inject({ method: 'GET', url: '/api/vortex/invitations/inv_1' });
+
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.objectContaining({ operation: 'getInvitation' }),
+      'Vortex request failed'
+    );
+    expect(lines.some((line) => line.msg === 'Vortex request failed')).toBe(false);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import { vortexPlugin } from '../src/routes';
+import { vortexWebhookPlugin } from '../src/webhook-plugin';
+import { createAllowAllAccessControl } from '../src/config';
+import {
+  MockVortexServer,
+  createMockVortexServer,
+  createVortexWebhookEvent,
+  deliverVortexWebhook,
+} from '../src/mock-server';
+
+describe('createMockVortexServer', () => {
+  let mockVortex: MockVortexServer;
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    mockVortex = createMockVortexServer({ apiKey: 'mock-key' });
+    const apiBaseUrl = await mockVortex.listen({ port: 0, host: '127.0.0.1' });
+
+    app = Fastify();
+    await app.register(vortexPlugin, {
+      prefix: '/api/vortex',
+      config: {
+        apiKey: 'mock-key',
+        apiBaseUrl,
+        authenticateUser: async () => ({
+          userId: 'user-1',
+          name: 'Inviter',
+          userEmail: 'invitee@example.com',
+        }),
+        ...createAllowAllAccessControl(),
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await mockVortex.close();
+  });
+
+  it('runs the invitation lifecycle through the plugin', async () => {
+    const created = await app.inject({
+      method: 'POST',
+      url: '/api/vortex/invitations',
+      payload: {
+        widgetConfigurationId: 'widget-1',
+        targets: [{ type: 'email', value: 'invitee@example.com' }],
+        scopeId: 'team-1',
+        scopeType: 'team',
+        scopeName: 'Team One',
+      },
+    });
+    expect(created.statusCode).toBe(200);
+    const [{ id }] = created.json().invitations;
+
+    const byScope = await app.inject({
+      method: 'GET',
+      url: '/api/vortex/invitations/by-scope/team/team-1',
+    });
+    expect(byScope.json().invitations).toEqual([
+      expect.objectContaining({ id, foreignCreatorId: 'user-1' }),
+    ]);
+
+    const byTarget = await app.inject({
+      method: 'GET',
+      url: '/api/vortex/invitations?targetType=email&targetValue=invitee@example.com',
+    });
+    expect(byTarget.json().invitations).toHaveLength(1);
+
+    const reinvited = await app.inject({
+      method: 'POST',
+      url: `/api/vortex/invitations/${id}/reinvite`,
+    });
+    expect(reinvited.json()).toMatchObject({ id, deliveryCount: 2 });
+
+    const accepted = await app.inject({
+      method: 'POST',
+      url: '/api/vortex/invitations/accept',
+      payload: { invitationIds: [id], user: { email: 'invitee@example.com' } },
+    });
+    expect(accepted.statusCode).toBe(200);
+    expect(mockVortex.invitations.get(id)).toMatchObject({ status: 'accepted' });
+
+    const acceptedAgain = await app.inject({
+      method: 'POST',
+      url: '/api/vortex/invitations/accept',
+      payload: { invitationIds: [id], user: { email: 'invitee@example.com' } },
+    });
+    expect(acceptedAgain.statusCode).toBe(409);
+
+    const revoked = await app.inject({ method: 'DELETE', url: `/api/vortex/invitations/${id}` });
+    expect(revoked.statusCode).toBe(200);
+    expect(mockVortex.invitations.get(id)).toMatchObject({ deactivated: true });
+
+    const missing = await app.inject({ method: 'GET', url: '/api/vortex/invitations/unknown' });
+    expect(missing.statusCode).toBe(404);
+  });
+
+  it('rejects requests with the wrong API key', async () => {
+    const response = await mockVortex.inject({
+      method: 'GET',
+      url: '/api/v1/invitations/anything',
+      headers: { 'x-api-key': 'other-key' },
+    });
+
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('delivers signed webhook events', async () => {
+    const onInvitationAccepted = jest.fn();
+    const receiver = Fastify();
+    await receiver.register(vortexWebhookPlugin, { secret: 'whsec_mock', onInvitationAccepted });
+
+    const event = createVortexWebhookEvent('invitation.accepted', { invitationId: 'inv_1' });
+    const response = await deliverVortexWebhook(receiver, event, { secret: 'whsec_mock' });
+    await receiver.close();
+
+    expect(response.statusCode).toBe(200);
+    expect(onInvitationAccepted).toHaveBeenCalledWith(event, expect.anything());
+  });
+});
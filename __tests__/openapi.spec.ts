@@ -0,0 +1,113 @@
+import { describe, it, expect } from '@jest/globals';
+import Fastify, { RouteOptions } from 'fastify';
+import { getVortexOpenApiSpec } from '../src/openapi';
+import { vortexPlugin } from '../src/routes';
+
+describe('getVortexOpenApiSpec', () => {
+  it('describes every Vortex route under the prefix', () => {
+    const spec = getVortexOpenApiSpec({ prefix: '/api/v1/vortex/' });
+
+    expect(spec.openapi).toBe('3.1.0');
+    expect(Object.keys(spec.paths).sort()).toEqual([
+      '/api/v1/vortex/invitations',
+      '/api/v1/vortex/invitations/accept',
+      '/api/v1/vortex/invitations/by-group/{groupType}/{groupId}',
+      '/api/v1/vortex/invitations/by-scope/{scopeType}/{scope}',
+      '/api/v1/vortex/invitations/sync-internal-invitation',
+      '/api/v1/vortex/invitations/{invitationId}',
+      '/api/v1/vortex/invitations/{invitationId}/reinvite',
+      '/api/v1/vortex/jwt',
+    ]);
+    expect(Object.keys(spec.paths['/api/v1/vortex/invitations/{invitationId}'])).toEqual([
+      'get',
+      'delete',
+    ]);
+  });
+
+  it('documents params, request bodies and the error envelope', () => {
+    const spec = getVortexOpenApiSpec();
+    const getInvitation = spec.paths['/api/vortex/invitations/{invitationId}'].get as any;
+    const accept = spec.paths['/api/vortex/invitations/accept'].post as any;
+    const byTarget = spec.paths['/api/vortex/invitations'].get as any;
+
+    expect(getInvitation.operationId).toBe('getInvitation');
+    expect(getInvitation.parameters).toEqual([
+      { name: 'invitationId', in: 'path', required: true, schema: { type: 'string', minLength: 1 } },
+    ]);
+    expect(getInvitation.responses['200'].content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/Invitation',
+    });
+    expect(Object.keys(getInvitation.responses)).toEqual([
+      '200',
+      '400',
+      '401',
+      '403',
+      '404',
+      '405',
+      '409',
+      '422',
+      '429',
+      '500',
+      '502',
+      '503',
+      '504',
+    ]);
+    expect(getInvitation.responses['403'].content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/VortexError',
+    });
+
+    expect(accept.requestBody.content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/AcceptInvitationsRequest',
+    });
+    expect(byTarget.parameters.map((p: any) => [p.name, p.in, p.required])).toEqual([
+      ['targetType', 'query', true],
+      ['targetValue', 'query', true],
+      ['limit', 'query', false],
+      ['cursor', 'query', false],
+      ['status', 'query', false],
+      ['deliveryType', 'query', false],
+      ['sort', 'query', false],
+    ]);
+    expect(spec.components.schemas.InvitationList).toEqual({
+      type: 'object',
+      properties: {
+        invitations: { type: 'array', items: { $ref: '#/components/schemas/Invitation' } },
+        nextCursor: { type: ['string', 'null'] },
+        total: { type: 'integer' },
+      },
+    });
+  });
+
+  it('marks the by-group routes as deprecated', () => {
+    const spec = getVortexOpenApiSpec();
+    const byGroup = spec.paths['/api/vortex/invitations/by-group/{groupType}/{groupId}'];
+
+    expect((byGroup.get as any).deprecated).toBe(true);
+    expect((byGroup.delete as any).deprecated).toBe(true);
+  });
+});
+
+describe('vortexPlugin openApi option', () => {
+  it('merges tags into every route schema', async () => {
+    const app = Fastify();
+    const schemas: RouteOptions['schema'][] = [];
+    app.addHook('onRoute', (route) => {
+      if (route.method !== 'HEAD') {
+        schemas.push(route.schema);
+      }
+    });
+
+    await app.register(vortexPlugin, {
+      prefix: '/api/vortex',
+      config: { apiKey: 'openapi-key' },
+      openApi: { tags: ['Invitations'] },
+    });
+    await app.ready();
+
+    expect(schemas).toHaveLength(12);
+    for (const schema of schemas) {
+      expect(schema).toMatchObject({ tags: ['Invitations'], summary: expect.any(String) });
+    }
+    await app.close();
+  });
+});
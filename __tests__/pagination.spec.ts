@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import { vortexPlugin } from '../src/routes';
+import { createAllowAllAccessControl } from '../src/config';
+import type { VortexClient } from '../src/client';
+
+const invitations = [
+  { id: 'inv_1', status: 'delivered', deliveryTypes: ['email'], createdAt: '2026-01-03T00:00:00Z' },
+  { id: 'inv_2', status: 'accepted', deliveryTypes: ['email'], createdAt: '2026-01-01T00:00:00Z' },
+  {
+    id: 'inv_3',
+    status: 'delivered',
+    deactivated: true,
+    deliveryTypes: ['phone'],
+    createdAt: '2026-01-05T00:00:00Z',
+  },
+  {
+    id: 'inv_4',
+    status: 'delivered',
+    expired: true,
+    deliveryTypes: ['share'],
+    createdAt: '2026-01-04T00:00:00Z',
+  },
+  { id: 'inv_5', status: 'queued', deliveryTypes: ['email'], createdAt: '2026-01-02T00:00:00Z' },
+];
+
+describe('invitation list paging', () => {
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    app = Fastify();
+    await app.register(vortexPlugin, {
+      prefix: '/api/vortex',
+      config: {
+        apiKey: 'paging-test-key',
+        createClient: () =>
+          ({
+            getInvitationsByScope: async () => invitations,
+            getInvitationsByTarget: async () => invitations,
+          }) as unknown as VortexClient,
+        authenticateUser: async () => ({ userId: 'user-1' }),
+        ...createAllowAllAccessControl(),
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  async function list(query: string) {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/vortex/invitations/by-scope/team/team-1?${query}`,
+    });
+    return { statusCode: response.statusCode, body: response.json() };
+  }
+
+  const ids = (body: { invitations: { id: string }[] }) => body.invitations.map(({ id }) => id);
+
+  it('walks pages with nextCursor', async () => {
+    const first = await list('limit=2&sort=-createdAt');
+    expect(ids(first.body)).toEqual(['inv_3', 'inv_4']);
+    expect(first.body.total).toBe(5);
+
+    const second = await list(`limit=2&sort=-createdAt&cursor=${first.body.nextCursor}`);
+    expect(ids(second.body)).toEqual(['inv_1', 'inv_5']);
+
+    const last = await list(`limit=2&sort=-createdAt&cursor=${second.body.nextCursor}`);
+    expect(ids(last.body)).toEqual(['inv_2']);
+    expect(last.body.nextCursor).toBeNull();
+  });
+
+  it('filters by status and delivery type', async () => {
+    expect(ids((await list('status=pending')).body)).toEqual(['inv_1', 'inv_5']);
+    expect(ids((await list('status=accepted')).body)).toEqual(['inv_2']);
+    expect(ids((await list('status=revoked')).body)).toEqual(['inv_3']);
+    expect(ids((await list('status=expired')).body)).toEqual(['inv_4']);
+
+    const emailOnly = await list('deliveryType=email&sort=createdAt');
+    expect(ids(emailOnly.body)).toEqual(['inv_2', 'inv_5', 'inv_1']);
+    expect(emailOnly.body.total).toBe(3);
+  });
+
+  it('applies to lookups by target', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/vortex/invitations?targetType=email&targetValue=a@example.com&limit=1',
+    });
+
+    expect(response.json()).toMatchObject({ total: 5, nextCursor: expect.any(String) });
+    expect(response.json().invitations).toHaveLength(1);
+  });
+
+  it('rejects invalid limits and cursors', async () => {
+    expect((await list('limit=0')).statusCode).toBe(400);
+    expect((await list('limit=500')).statusCode).toBe(400);
+    expect((await list('cursor=not-a-cursor')).statusCode).toBe(400);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import { vortexPlugin, VortexPluginOptions } from '../src/routes';
+import { MemoryRateLimitStore } from '../src/rate-limit';
+import { createAllowAllAccessControl, VortexConfig } from '../src/config';
+import type { VortexClient } from '../src/client';
+
+describe('MemoryRateLimitStore', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('counts requests per fixed window', () => {
+    jest.useFakeTimers({ now: 0 });
+    const store = new MemoryRateLimitStore();
+
+    expect(store.increment('a', 1000)).toEqual({ count: 1, resetAt: 1000 });
+    expect(store.increment('a', 1000)).toEqual({ count: 2, resetAt: 1000 });
+    expect(store.increment('b', 1000)).toEqual({ count: 1, resetAt: 1000 });
+
+    jest.advanceTimersByTime(1000);
+    expect(store.increment('a', 1000)).toEqual({ count: 1, resetAt: 2000 });
+  });
+});
+
+describe('vortexPlugin rateLimit option', () => {
+  let app: FastifyInstance;
+  let authenticateUser: jest.Mock<NonNullable<VortexConfig['authenticateUser']>>;
+
+  async function createApp(rateLimit: VortexPluginOptions['rateLimit']) {
+    app = Fastify();
+    await app.register(vortexPlugin, {
+      prefix: '/api/vortex',
+      rateLimit,
+      config: {
+        apiKey: 'rate-limit-key',
+        createClient: () =>
+          ({
+            getInvitation: async (id: string) => ({ id }),
+            getInvitationsByTarget: async () => [],
+          }) as unknown as VortexClient,
+        authenticateUser,
+        ...createAllowAllAccessControl(),
+      },
+    });
+  }
+
+  beforeEach(() => {
+    authenticateUser = jest.fn(async () => ({ userId: 'user-1' }));
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const lookup = () =>
+    app.inject({
+      method: 'GET',
+      url: '/api/vortex/invitations?targetType=email&targetValue=a@example.com',
+    });
+
+  it('answers 429 with Retry-After once the target lookup limit is reached', async () => {
+    await createApp(true);
+
+    for (let i = 0; i < 10; i++) {
+      expect((await lookup()).statusCode).toBe(200);
+    }
+    const limited = await lookup();
+
+    expect(limited.statusCode).toBe(429);
+    expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+    expect(limited.json()).toMatchObject({ code: 'RATE_LIMITED' });
+    // Other routes keep their own, looser counters
+    expect(
+      (await app.inject({ method: 'GET', url: '/api/vortex/invitations/inv_1' })).statusCode
+    ).toBe(200);
+  });
+
+  it('applies per-route rules and disables limiting with false', async () => {
+    await createApp({ routes: { INVITATION: { max: 1 }, INVITATIONS: false } });
+
+    expect(
+      (await app.inject({ method: 'GET', url: '/api/vortex/invitations/inv_1' })).statusCode
+    ).toBe(200);
+    expect(
+      (await app.inject({ method: 'GET', url: '/api/vortex/invitations/inv_1' })).statusCode
+    ).toBe(429);
+    for (let i = 0; i < 20; i++) {
+      expect((await lookup()).statusCode).toBe(200);
+    }
+  });
+
+  it('counts per user without authenticating twice', async () => {
+    await createApp({ keyBy: 'user', routes: { INVITATIONS: { max: 1 } } });
+
+    expect((await lookup()).statusCode).toBe(200);
+    expect(authenticateUser).toHaveBeenCalledTimes(1);
+
+    authenticateUser.mockResolvedValue({ userId: 'user-2' });
+    expect((await lookup()).statusCode).toBe(200);
+    expect((await lookup()).statusCode).toBe(429);
+  });
+
+  it('lets requests through when the store fails', async () => {
+    await createApp({
+      store: { increment: () => Promise.reject(new Error('store down')) },
+    });
+
+    expect((await lookup()).statusCode).toBe(200);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import { vortexPlugin } from '../src/routes';
+import { createAllowAllAccessControl, VortexConfig } from '../src/config';
+import { getVortexCircuitBreaker, VortexClient } from '../src/client';
+import { VortexCircuitBreaker, VortexCircuitState } from '../src/resilience';
+
+const unavailable = () =>
+  Promise.reject(new Error('Vortex API request failed: 503 Service Unavailable'));
+
+describe('VortexCircuitBreaker', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('opens after consecutive failures and lets one trial through after the reset timeout', () => {
+    jest.useFakeTimers({ now: 0 });
+    const changes: VortexCircuitState[] = [];
+    const breaker = new VortexCircuitBreaker({
+      failureThreshold: 2,
+      resetTimeoutMs: 10_000,
+      onStateChange: (state) => changes.push(state),
+    });
+
+    breaker.recordFailure();
+    breaker.acquire();
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+    expect(() => breaker.acquire()).toThrow(
+      expect.objectContaining({ statusCode: 503, retryAfter: 10 })
+    );
+
+    jest.advanceTimersByTime(10_000);
+    breaker.acquire();
+    expect(breaker.state).toBe('half-open');
+    // Only one trial at a time
+    expect(() => breaker.acquire()).toThrow(expect.objectContaining({ statusCode: 503 }));
+
+    breaker.recordSuccess();
+    expect(breaker.getStats()).toEqual({ state: 'closed', consecutiveFailures: 0, openedAt: null });
+    expect(changes).toEqual(['open', 'half-open', 'closed']);
+  });
+});
+
+describe('upstream resilience options', () => {
+  let app: FastifyInstance;
+  let config: VortexConfig;
+  let client: {
+    getInvitation: jest.Mock<() => Promise<unknown>>;
+    reinvite: jest.Mock<() => Promise<unknown>>;
+  };
+
+  async function createApp(options: Partial<VortexConfig>) {
+    config = {
+      apiKey: 'resilience-key',
+      createClient: () => client as unknown as VortexClient,
+      authenticateUser: async () => ({ userId: 'user-1' }),
+      ...createAllowAllAccessControl(),
+      ...options,
+    };
+    app = Fastify();
+    await app.register(vortexPlugin, { prefix: '/api/vortex', config });
+  }
+
+  beforeEach(() => {
+    client = {
+      getInvitation: jest.fn(async () => ({ id: 'inv_1' })),
+      reinvite: jest.fn(async () => ({ id: 'inv_1' })),
+    };
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const getInvitation = () => app.inject({ method: 'GET', url: '/api/vortex/invitations/inv_1' });
+
+  it('answers 504 when a call exceeds timeoutMs', async () => {
+    client.getInvitation.mockImplementation(() => new Promise(() => {}));
+    await createApp({ timeoutMs: 20 });
+
+    const response = await getInvitation();
+
+    expect(response.statusCode).toBe(504);
+    expect(response.json()).toMatchObject({ code: 'UPSTREAM_TIMEOUT' });
+  });
+
+  it('retries idempotent calls on upstream failures', async () => {
+    client.getInvitation.mockImplementationOnce(unavailable).mockImplementationOnce(unavailable);
+    await createApp({ retry: { retries: 2, minDelayMs: 1 } });
+
+    expect((await getInvitation()).statusCode).toBe(200);
+    expect(client.getInvitation).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry 4xx answers or non-idempotent calls', async () => {
+    client.getInvitation.mockRejectedValue(new Error('Vortex API request failed: 404 Not Found'));
+    client.reinvite.mockImplementation(unavailable);
+    await createApp({ retry: { retries: 2, minDelayMs: 1 } });
+
+    expect((await getInvitation()).statusCode).toBe(404);
+    expect(client.getInvitation).toHaveBeenCalledTimes(1);
+    expect(
+      (await app.inject({ method: 'POST', url: '/api/vortex/invitations/inv_1/reinvite' }))
+        .statusCode
+    ).toBe(502);
+    expect(client.reinvite).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails fast with 503 while the circuit is open', async () => {
+    client.getInvitation.mockImplementation(unavailable);
+    await createApp({ circuitBreaker: { failureThreshold: 2 } });
+
+    expect((await getInvitation()).statusCode).toBe(502);
+    expect((await getInvitation()).statusCode).toBe(502);
+    const response = await getInvitation();
+
+    expect(response.statusCode).toBe(503);
+    expect(response.headers['retry-after']).toBe('30');
+    expect(response.json()).toMatchObject({ code: 'UPSTREAM_CIRCUIT_OPEN' });
+    expect(client.getInvitation).toHaveBeenCalledTimes(2);
+    expect(getVortexCircuitBreaker(config)?.getStats()).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 2,
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import { vortexPlugin } from '../src/routes';
+import { createAllowAllAccessControl } from '../src/config';
+import type { VortexClient } from '../src/client';
+
+describe('vortexPlugin route schemas', () => {
+  let app: FastifyInstance;
+  let fakeClient: Record<string, jest.Mock<(...args: any[]) => Promise<unknown>>>;
+
+  beforeEach(async () => {
+    fakeClient = {
+      acceptInvitations: jest.fn(async () => ({ id: 'inv_1', status: 'accepted' })),
+      getInvitationsByScope: jest.fn(async () => [
+        { id: 'inv_1', status: 'delivered', customField: 'kept' },
+      ]),
+      syncInternalInvitation: jest.fn(async () => ({ processed: 1, invitationIds: ['inv_1'] })),
+    };
+
+    app = Fastify();
+    await app.register(vortexPlugin, {
+      prefix: '/api/vortex',
+      config: {
+        apiKey: 'schema-test-key',
+        createClient: () => fakeClient as unknown as VortexClient,
+        authenticateUser: async () => ({ userId: 'user-1' }),
+        ...createAllowAllAccessControl(),
+        acceptIdentity: 'body',
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('rejects an accept body without invitationIds', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/vortex/invitations/accept',
+      payload: { user: { email: 'user@example.com' } },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json()).toEqual({
+      error: "body must have required property 'invitationIds'",
+      code: 'VALIDATION_FAILED',
+    });
+    expect(fakeClient.acceptInvitations).not.toHaveBeenCalled();
+  });
+
+  it('rejects more than 100 invitationIds', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/vortex/invitations/accept',
+      payload: {
+        invitationIds: Array.from({ length: 101 }, (_, index) => `inv_${index}`),
+        user: { email: 'user@example.com' },
+      },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error).toContain('body/invitationIds');
+    expect(fakeClient.acceptInvitations).not.toHaveBeenCalled();
+  });
+
+  it('rejects an unknown targetType query parameter', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/vortex/invitations?targetType=fax&targetValue=123',
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error).toContain('querystring/targetType');
+  });
+
+  it('rejects an invalid sync-internal-invitation action', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/vortex/invitations/sync-internal-invitation',
+      payload: { creatorId: 'a', targetValue: 'b', action: 'maybe', componentId: 'c' },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(fakeClient.syncInternalInvitation).not.toHaveBeenCalled();
+  });
+
+  it('accepts a valid body and serializes the response', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/vortex/invitations/accept',
+      payload: { invitationIds: ['inv_1'], user: { email: 'user@example.com' } },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ id: 'inv_1', status: 'accepted' });
+  });
+
+  it('passes unknown invitation fields through response serialization', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/vortex/invitations/by-scope/team/team-1',
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({
+      invitations: [{ id: 'inv_1', status: 'delivered', customField: 'kept' }],
+      nextCursor: null,
+      total: 1,
+    });
+  });
+
+  it('serves the deprecated by-group route from its own params', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/vortex/invitations/by-group/team/team-2',
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(fakeClient.getInvitationsByScope).toHaveBeenCalledWith('team', 'team-2');
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import { vortexPlugin } from '../src/routes';
+import { createScopedAccessControl } from '../src/access-control';
+import type { VortexClient } from '../src/client';
+import { vortexTestKit, VortexAccessDecisionQuery } from '../src/testing';
+
+declare module 'expect' {
+  interface Matchers<R> {
+    toHaveAllowed(query?: VortexAccessDecisionQuery): R;
+    toHaveDenied(query?: VortexAccessDecisionQuery): R;
+  }
+}
+
+expect.extend(vortexTestKit.matchers);
+
+describe('vortexTestKit', () => {
+  const recorder = vortexTestKit.createAccessRecorder();
+  const member = { userId: 'user-1', groups: [{ type: 'team', id: 'team-1', name: 'Team One' }] };
+  const outsider = { userId: 'user-2' };
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    const client = { getInvitationsByScope: jest.fn(async () => []) };
+    app = Fastify();
+    await app.register(vortexPlugin, {
+      prefix: '/api/vortex',
+      config: {
+        apiKey: 'test-kit-key',
+        createClient: () => client as unknown as VortexClient,
+        authenticateUser: vortexTestKit.authenticateUser({ trustTestHeader: true }),
+        ...recorder.record(createScopedAccessControl()),
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('injects requests as a user and records the access decisions', async () => {
+    const url = '/api/vortex/invitations/by-scope/team/team-1';
+
+    const allowed = await vortexTestKit.withUser(app, member).inject({ method: 'GET', url });
+    const denied = await vortexTestKit.withUser(app, outsider).inject({ method: 'GET', url });
+    const anonymous = await app.inject({ method: 'GET', url });
+
+    expect(allowed.statusCode).toBe(200);
+    expect(denied.statusCode).toBe(403);
+    expect(anonymous.statusCode).toBe(403);
+    expect(recorder).toHaveAllowed({ userId: 'user-1', scopeType: 'team', scope: 'team-1' });
+    expect(recorder).toHaveDenied({
+      hook: 'canAccessInvitationsByScope',
+      route: '/api/vortex/invitations/by-scope/:scopeType/:scope',
+      userId: 'user-2',
+      scope: 'team-1',
+    });
+    expect(recorder).toHaveDenied({ userId: null });
+    expect(recorder).not.toHaveAllowed({ userId: 'user-2' });
+    expect(recorder.find({ method: 'get' })).toHaveLength(3);
+
+    recorder.clear();
+    expect(recorder.decisions).toEqual([]);
+  });
+
+  it('explains failed assertions with the recorded calls', () => {
+    const result = vortexTestKit.matchers.toHaveDenied(recorder, { userId: 'user-1' });
+
+    expect(result.pass).toBe(false);
+    expect(result.message()).toContain('"userId":"user-1"');
+  });
+
+  it('ignores the test user header unless trusted explicitly', async () => {
+    const fallback = jest.fn(async () => null);
+    const authenticateUser = vortexTestKit.authenticateUser({ trustTestHeader: false, fallback });
+    let user: unknown;
+    const untrusted = Fastify();
+    untrusted.get('/', async (request, reply) => {
+      user = await authenticateUser(request, reply);
+      return {};
+    });
+
+    await vortexTestKit.withUser(untrusted, member).inject({ method: 'GET', url: '/' });
+    await untrusted.close();
+
+    expect(user).toBeNull();
+    expect(fallback).toHaveBeenCalledTimes(1);
+  });
+});
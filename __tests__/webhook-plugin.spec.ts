@@ -0,0 +1,141 @@
+import crypto from 'node:crypto';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import { vortexWebhookPlugin } from '../src/webhook-plugin';
+
+const TEST_SECRET = 'whsec_test_secret';
+
+// Formatted differently from JSON.stringify, so re-serializing would break the signature
+const payload = `{ "id": "evt_1", "type": "invitation.accepted", "timestamp": "2026-02-25T12:00:00Z",
+  "accountId": "acc_1", "environmentId": null, "sourceTable": "invitations",
+  "operation": "update", "data": { "targetEmail": "user@test.com" } }`;
+
+function sign(body: string): string {
+  return crypto.createHmac('sha256', TEST_SECRET).update(body).digest('hex');
+}
+
+describe('vortexWebhookPlugin', () => {
+  let app: FastifyInstance;
+  let onEvent: jest.Mock<(event: unknown) => Promise<void>>;
+
+  beforeEach(async () => {
+    onEvent = jest.fn(async () => {});
+    app = Fastify();
+    app.post('/echo', async (request) => request.body);
+    await app.register(vortexWebhookPlugin, {
+      secret: TEST_SECRET,
+      handlers: { onEvent },
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const deliver = (signature: string, url = '/webhooks/vortex') =>
+    app.inject({
+      method: 'POST',
+      url,
+      headers: { 'content-type': 'application/json', 'x-vortex-signature': signature },
+      payload,
+    });
+
+  it('verifies the signature on the raw body and runs the handlers', async () => {
+    const response = await deliver(sign(payload));
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ received: true });
+    expect(onEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'evt_1', type: 'invitation.accepted' })
+    );
+  });
+
+  it('returns 401 for an invalid signature', async () => {
+    const response = await deliver('invalid_signature');
+
+    expect(response.statusCode).toBe(401);
+    expect(onEvent).not.toHaveBeenCalled();
+  });
+
+  it('keeps the default JSON parser outside the plugin', async () => {
+    const response = await app.inject({ method: 'POST', url: '/echo', payload: { ok: true } });
+
+    expect(response.json()).toEqual({ ok: true });
+  });
+
+  it('mounts the route at a custom path under the prefix', async () => {
+    const custom = Fastify();
+    await custom.register(vortexWebhookPlugin, {
+      prefix: '/hooks',
+      path: '/vortex-events',
+      secret: TEST_SECRET,
+      handlers: { onEvent },
+    });
+
+    const response = await custom.inject({
+      method: 'POST',
+      url: '/hooks/vortex-events',
+      headers: { 'content-type': 'application/json', 'x-vortex-signature': sign(payload) },
+      payload,
+    });
+    await custom.close();
+
+    expect(response.statusCode).toBe(200);
+    expect(onEvent).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('vortexWebhookPlugin events', () => {
+  const deliver = (app: FastifyInstance) =>
+    app.inject({
+      method: 'POST',
+      url: '/webhooks/vortex',
+      headers: { 'content-type': 'application/json', 'x-vortex-signature': sign(payload) },
+      payload,
+    });
+
+  it('emits events on fastify.vortex.events and calls the domain hooks with the request', async () => {
+    const onInvitationAccepted = jest.fn();
+    const app = Fastify();
+    await app.register(vortexWebhookPlugin, { secret: TEST_SECRET, onInvitationAccepted });
+    const wildcard = jest.fn();
+    const other = jest.fn();
+    app.vortex!.events.on('invitation.*', wildcard);
+    app.vortex!.events.on('member.created', other);
+
+    const response = await deliver(app);
+    await app.close();
+
+    expect(response.statusCode).toBe(200);
+    expect(wildcard).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'evt_1' }),
+      expect.anything()
+    );
+    expect(other).not.toHaveBeenCalled();
+    const [event, context] = onInvitationAccepted.mock.calls[0] as [any, any];
+    expect(event.type).toBe('invitation.accepted');
+    expect(context.request.url).toBe('/webhooks/vortex');
+    expect(context.log).toBeDefined();
+  });
+
+  it('runs every listener and fails the delivery when one throws', async () => {
+    const app = Fastify();
+    await app.register(vortexWebhookPlugin, { secret: TEST_SECRET });
+    const unsubscribed = jest.fn();
+    const after = jest.fn();
+    app.vortex!.events.on('*', async () => {
+      throw new Error('listener failed');
+    });
+    const unsubscribe = app.vortex!.events.on('*', unsubscribed);
+    app.vortex!.events.on('invitation.accepted', after);
+    unsubscribe();
+
+    const response = await deliver(app);
+    await app.close();
+
+    expect(response.statusCode).toBe(500);
+    expect(after).toHaveBeenCalledTimes(1);
+    expect(unsubscribed).not.toHaveBeenCalled();
+    expect(app.vortex!.events.listenerCount('invitation.accepted')).toBe(2);
+  });
+});
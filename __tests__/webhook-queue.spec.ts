@@ -0,0 +1,101 @@
+import crypto from 'node:crypto';
+import { describe, it, expect, jest } from '@jest/globals';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { VortexEvent, VortexWebhooks } from '@teamvortexsoftware/vortex-node-22-sdk';
+import { MemoryWebhookQueue } from '../src/webhook-queue';
+import { createVortexWebhookHandler } from '../src/handlers/webhooks';
+
+const TEST_SECRET = 'whsec_test_secret';
+
+function webhookEvent(id: string, type = 'invitation.accepted'): VortexEvent {
+  return {
+    id,
+    type,
+    timestamp: new Date().toISOString(),
+    accountId: 'acc_1',
+    environmentId: null,
+    sourceTable: 'invitations',
+    operation: 'update',
+    data: {},
+  };
+}
+
+describe('MemoryWebhookQueue', () => {
+  it('retries failing events and dead-letters them after the last retry', async () => {
+    const onDeadLetter = jest.fn();
+    const queue = new MemoryWebhookQueue({ retry: { retries: 2, minDelayMs: 1 }, onDeadLetter });
+    const process = jest.fn(async () => {
+      throw new Error('provisioning failed');
+    });
+
+    queue.enqueue(webhookEvent('evt_1'), process);
+    await queue.drain();
+
+    expect(process).toHaveBeenCalledTimes(3);
+    expect(onDeadLetter).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'evt_1' }),
+      expect.objectContaining({ message: 'provisioning failed' })
+    );
+  });
+
+  it('limits concurrency per event type', async () => {
+    const queue = new MemoryWebhookQueue({
+      concurrency: 2,
+      concurrencyByType: { 'invitation.accepted': 1 },
+    });
+    const active: Record<string, number> = {};
+    const peak: Record<string, number> = {};
+    const process = async (event: VortexEvent) => {
+      const type = 'type' in event ? event.type : event.name;
+      active[type] = (active[type] ?? 0) + 1;
+      peak[type] = Math.max(peak[type] ?? 0, active[type]);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active[type] -= 1;
+    };
+
+    for (let i = 0; i < 4; i++) {
+      queue.enqueue(webhookEvent(`evt_a${i}`, 'invitation.accepted'), process);
+      queue.enqueue(webhookEvent(`evt_c${i}`, 'invitation.created'), process);
+    }
+    expect(queue.size).toBe(8);
+    await queue.drain();
+
+    expect(peak).toEqual({ 'invitation.accepted': 1, 'invitation.created': 2 });
+    expect(queue.size).toBe(0);
+  });
+});
+
+describe('createVortexWebhookHandler queue option', () => {
+  it('acknowledges before the handlers finish', async () => {
+    const webhooks = new VortexWebhooks({ secret: TEST_SECRET });
+    const queue = new MemoryWebhookQueue();
+    let finish!: () => void;
+    const onEvent = jest.fn(() => new Promise<void>((resolve) => (finish = resolve)));
+    const handler = createVortexWebhookHandler(webhooks, { onEvent }, { queue });
+    const payload = JSON.stringify(webhookEvent('evt_1'));
+    const reply = {
+      status: jest.fn().mockReturnThis(),
+      send: jest.fn().mockReturnThis(),
+    } as unknown as FastifyReply;
+
+    await handler(
+      {
+        headers: {
+          'x-vortex-signature': crypto
+            .createHmac('sha256', TEST_SECRET)
+            .update(payload)
+            .digest('hex'),
+        },
+        rawBody: Buffer.from(payload),
+      } as unknown as FastifyRequest,
+      reply
+    );
+
+    expect(reply.status).toHaveBeenCalledWith(200);
+    expect(onEvent).toHaveBeenCalledTimes(1);
+    expect(queue.size).toBe(1);
+    finish();
+    await queue.drain();
+    expect(queue.size).toBe(0);
+  });
+});
@@ -0,0 +1,313 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import type {
+  AccessControlHook,
+  AuthenticatedUser,
+  CreateInvitationResource,
+  GroupResource,
+  InvitationResource,
+  InvitationTargetResource,
+  ScopeResource,
+  SyncInternalInvitationResource,
+  VortexAccessControlHooks,
+} from './config';
+import { getQueryParam } from './utils';
+
+/**
+ * Operations the access control hooks guard
+ */
+export type VortexAccessAction =
+  'read' | 'create' | 'accept' | 'delete' | 'reinvite' | 'syncInternal';
+
+/**
+ * What a rule sees when it is evaluated
+ */
+export interface VortexAccessContext {
+  request: FastifyRequest;
+  reply: FastifyReply;
+  user: AuthenticatedUser;
+  action: VortexAccessAction;
+  /** Name of the hook being evaluated, e.g. `canDeleteInvitationsByScope` */
+  hook: keyof VortexAccessControlHooks;
+  /** The hook's resource argument */
+  resource: unknown;
+  /** First scope the request targets, when the resource has one */
+  scope: { scopeType: string; scopeId: string } | null;
+  /** Every scope the request targets (an invitation can belong to several) */
+  scopes: { scopeType: string; scopeId: string }[];
+  /** Invitee identifiers the request targets (email, phone, user ID), when known */
+  targets: string[];
+}
+
+/**
+ * A single access rule:
+ * - `'authenticated'`: any authenticated user
+ * - `'scopeMember'`: the user belongs to the request's scope (via `groups` or `adminScopes`)
+ * - `'scopeAdmin'`: the request's scope is in the user's `adminScopes`, as `scopeType:scopeId`
+ * - `'self'`: the request targets the user's own email, phone or user ID
+ * - `'creator'`: the user created the invitation (requires `prefetchInvitation`)
+ * - `{ role }`: the user has this role (or one of these roles)
+ * - a function for anything else
+ */
+export type VortexAccessRule =
+  | 'authenticated'
+  | 'scopeMember'
+  | 'scopeAdmin'
+  | 'self'
+  | 'creator'
+  | { role: string | readonly string[] }
+  | ((context: VortexAccessContext) => boolean | Promise<boolean>);
+
+export interface ScopedAccessControlOptions {
+  /**
+   * Rules per action. An action is allowed when any of its rules matches;
+   * unauthenticated requests are always denied. Unlisted actions use the defaults.
+   */
+  rules?: Partial<Record<VortexAccessAction, VortexAccessRule | readonly VortexAccessRule[]>>;
+  /** Hooks used instead of the derived ones */
+  overrides?: VortexAccessControlHooks;
+}
+
+/**
+ * Default policy: users read and create invitations in their scopes and accept
+ * their own; scope admins, the inviter and `admin` users delete and resend.
+ *
+ * The single-invitation hooks only see the invitation's scopes, targets and
+ * creator with `prefetchInvitation` enabled. Without it, getting one invitation
+ * is denied to everyone, and revoking or resending one is left to `admin` users.
+ */
+export const DEFAULT_ACCESS_RULES: Record<VortexAccessAction, readonly VortexAccessRule[]> = {
+  read: ['scopeMember', 'self'],
+  create: ['scopeMember'],
+  accept: ['self'],
+  delete: ['scopeAdmin', 'creator', { role: 'admin' }],
+  reinvite: ['scopeAdmin', 'creator', { role: 'admin' }],
+  syncInternal: ['self'],
+};
+
+/**
+ * Scopes a hook's resource refers to
+ */
+export function getScopes(
+  hook: keyof VortexAccessControlHooks,
+  resource: unknown
+): VortexAccessContext['scopes'] {
+  if (!resource) {
+    return [];
+  }
+  if (hook === 'canCreateInvitation') {
+    const { scope } = resource as CreateInvitationResource;
+    return scope ? [{ scopeType: scope.scopeType, scopeId: scope.scopeId }] : [];
+  }
+  const { invitation } = resource as InvitationResource;
+  if (invitation) {
+    return (invitation.scopes ?? []).map((scope) => ({
+      scopeType: scope.type,
+      scopeId: scope.scopeId ?? scope.groupId,
+    }));
+  }
+  const { scopeType, scope, groupType, groupId } = resource as Partial<
+    ScopeResource & GroupResource
+  >;
+  const type = scopeType ?? groupType;
+  const id = scope ?? groupId;
+  return type && id ? [{ scopeType: type, scopeId: id }] : [];
+}
+
+function getTargets(
+  hook: keyof VortexAccessControlHooks,
+  request: FastifyRequest,
+  resource: unknown
+): string[] {
+  switch (hook) {
+    case 'canAccessInvitationsByTarget': {
+      const targetValue = getQueryParam(request, 'targetValue');
+      return targetValue ? [targetValue] : [];
+    }
+    case 'canAcceptInvitations': {
+      const { user, target } = (resource ?? {}) as InvitationTargetResource;
+      return [user?.email, user?.phone, target?.value].filter((value): value is string =>
+        Boolean(value)
+      );
+    }
+    case 'canSyncInternalInvitation':
+      return resource ? [(resource as SyncInternalInvitationResource).targetValue] : [];
+    default: {
+      const invitation = (resource as InvitationResource | undefined)?.invitation;
+      return (invitation?.target ?? [])
+        .map(({ value }) => value)
+        .filter((value): value is string => Boolean(value));
+    }
+  }
+}
+
+function getUserIdentifiers(user: AuthenticatedUser): string[] {
+  return [user.userId, user.userEmail, ...(user.identifiers ?? []).map(({ value }) => value)]
+    .filter((value): value is string => Boolean(value))
+    .map((value) => value.toLowerCase());
+}
+
+/** `adminScopes` entries name a scope as `scopeType:scopeId` */
+function isScopeAdmin(user: AuthenticatedUser, scope: { scopeType: string; scopeId: string }) {
+  return !!user.adminScopes?.includes(`${scope.scopeType}:${scope.scopeId}`);
+}
+
+async function matchesRule(rule: VortexAccessRule, context: VortexAccessContext): Promise<boolean> {
+  const { user, scopes, targets } = context;
+
+  if (typeof rule === 'function') {
+    return rule(context);
+  }
+  if (typeof rule === 'object') {
+    const roles: readonly string[] = typeof rule.role === 'string' ? [rule.role] : rule.role;
+    return !!user.role && roles.includes(user.role);
+  }
+
+  switch (rule) {
+    case 'authenticated':
+      return true;
+    case 'scopeAdmin':
+      return scopes.some((scope) => isScopeAdmin(user, scope));
+    case 'scopeMember':
+      return scopes.some(
+        (scope) =>
+          isScopeAdmin(user, scope) ||
+          !!user.groups?.some(
+            (group) =>
+              group.type === scope.scopeType && (group.id ?? group.groupId) === scope.scopeId
+          )
+      );
+    case 'creator': {
+      const invitation = (context.resource as InvitationResource | undefined)?.invitation;
+      return !!invitation && invitation.foreignCreatorId === user.userId;
+    }
+    case 'self': {
+      if (targets.length === 0) {
+        return false;
+      }
+      const identifiers = getUserIdentifiers(user);
+      return targets.every((target) => identifiers.includes(target.toLowerCase()));
+    }
+  }
+}
+
+function createRuleHook<T>(
+  hook: keyof VortexAccessControlHooks,
+  action: VortexAccessAction,
+  rules: readonly VortexAccessRule[]
+): AccessControlHook<T> {
+  return async (request, reply, user, resource) => {
+    if (!user) {
+      return false;
+    }
+
+    const scopes = getScopes(hook, resource);
+    const context: VortexAccessContext = {
+      request,
+      reply,
+      user,
+      action,
+      hook,
+      resource,
+      scopes,
+      scope: scopes[0] ?? null,
+      targets: getTargets(hook, request, resource),
+    };
+
+    for (const rule of rules) {
+      if (await matchesRule(rule, context)) {
+        return true;
+      }
+    }
+    return false;
+  };
+}
+
+/**
+ * Creates all `can*` hooks from a small role/scope policy.
+ *
+ * Usage:
+ * ```typescript
+ * configureVortex({
+ *   apiKey: process.env.VORTEX_API_KEY!,
+ *   authenticateUser,
+ *   ...createScopedAccessControl({
+ *     rules: {
+ *       read: ['scopeMember', 'self'],
+ *       delete: ['scopeAdmin', { role: ['owner', 'admin'] }],
+ *     },
+ *     overrides: { canSyncInternalInvitation: async () => true },
+ *   }),
+ * });
+ * ```
+ */
+export function createScopedAccessControl(
+  options: ScopedAccessControlOptions = {}
+): Required<VortexAccessControlHooks> {
+  const rulesFor = (action: VortexAccessAction): readonly VortexAccessRule[] => {
+    const rules = options.rules?.[action] ?? DEFAULT_ACCESS_RULES[action];
+    return Array.isArray(rules) ? rules : [rules as VortexAccessRule];
+  };
+  const hook = <T>(name: keyof VortexAccessControlHooks, action: VortexAccessAction) =>
+    createRuleHook<T>(name, action, rulesFor(action));
+
+  const hooks: Required<VortexAccessControlHooks> = {
+    canAccessInvitationsByTarget: hook('canAccessInvitationsByTarget', 'read'),
+    canAccessInvitation: hook('canAccessInvitation', 'read'),
+    canDeleteInvitation: hook('canDeleteInvitation', 'delete'),
+    canAcceptInvitations: hook('canAcceptInvitations', 'accept'),
+    canCreateInvitation: hook('canCreateInvitation', 'create'),
+    canAccessInvitationsByGroup: hook('canAccessInvitationsByGroup', 'read'),
+    canAccessInvitationsByScope: hook('canAccessInvitationsByScope', 'read'),
+    canDeleteInvitationsByGroup: hook('canDeleteInvitationsByGroup', 'delete'),
+    canDeleteInvitationsByScope: hook('canDeleteInvitationsByScope', 'delete'),
+    canReinvite: hook('canReinvite', 'reinvite'),
+    canSyncInternalInvitation: hook('canSyncInternalInvitation', 'syncInternal'),
+  };
+
+  return { ...hooks, ...definedHooks(options.overrides) };
+}
+
+function definedHooks(hooks: VortexAccessControlHooks = {}): VortexAccessControlHooks {
+  return Object.fromEntries(
+    Object.entries(hooks).filter(([, value]) => value !== undefined)
+  ) as VortexAccessControlHooks;
+}
+
+/**
+ * Combines sets of access control hooks. A hook defined in several sets only
+ * allows a request when every one of them does.
+ *
+ * Usage:
+ * ```typescript
+ * configureVortex({
+ *   apiKey: process.env.VORTEX_API_KEY!,
+ *   ...composeAccessControl(createScopedAccessControl(), { canCreateInvitation: withinQuota }),
+ * });
+ * ```
+ */
+export function composeAccessControl(
+  ...hookSets: VortexAccessControlHooks[]
+): VortexAccessControlHooks {
+  const combined: Record<string, AccessControlHook<unknown>[]> = {};
+  for (const hookSet of hookSets) {
+    for (const [name, hook] of Object.entries(definedHooks(hookSet))) {
+      (combined[name] ??= []).push(hook as AccessControlHook<unknown>);
+    }
+  }
+
+  return Object.fromEntries(
+    Object.entries(combined).map(([name, hooks]) => [
+      name,
+      hooks.length === 1
+        ? hooks[0]
+        : ((async (request, reply, user, resource) => {
+            for (const hook of hooks) {
+              if (!(await hook(request, reply, user, resource))) {
+                return false;
+              }
+            }
+            return true;
+          }) satisfies AccessControlHook<unknown>),
+    ])
+  ) as VortexAccessControlHooks;
+}
@@ -0,0 +1,142 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { getVortexConfig, type VortexAccessControlHooks, type VortexConfig } from './config';
+import type { VortexHttpError } from './errors';
+import { logVortexEvent, VortexLogFields } from './logging';
+
+/** The resource an invitation route acted on */
+export interface VortexAuditResource {
+  invitationId?: string;
+  invitationIds?: string[];
+  scopeType?: string;
+  scope?: string;
+  /** Invitee address, for the by-target and accept routes */
+  target?: { type: string; value: string };
+  /** Invitee addresses, for the create route */
+  targets?: { type: string; value: string }[];
+}
+
+/** Outcome of the access check for a request */
+export interface VortexAuditDecision {
+  /** The `can*` hook consulted, or `null` when none is configured and authentication decided */
+  hook: keyof VortexAccessControlHooks | null;
+  allowed: boolean;
+}
+
+/**
+ * One audited invitation route request
+ */
+export interface VortexAuditEntry {
+  /** Vortex operation, e.g. `revokeInvitation` */
+  operation: string;
+  method: string;
+  /** Route pattern, e.g. `/api/vortex/invitations/:invitationId` */
+  route?: string;
+  userId: string | null;
+  resource: VortexAuditResource;
+  /** `null` when the request failed before (or while) access was checked */
+  decision: VortexAuditDecision | null;
+  /** `denied` for 401 and 403 responses */
+  outcome: 'success' | 'denied' | 'error';
+  statusCode: number;
+  errorCode?: string;
+  /** Time spent waiting on the Vortex API, in milliseconds */
+  upstreamLatencyMs?: number;
+  upstreamAttempts?: number;
+  cacheHit?: boolean;
+  /** Time since the request was received, in milliseconds */
+  durationMs: number;
+  /** ISO 8601 time the entry was created */
+  timestamp: string;
+}
+
+/**
+ * Receives an audit entry for every invitation route request, allowed or not
+ */
+export type VortexAuditHook = (entry: VortexAuditEntry, request: FastifyRequest) => unknown;
+
+/**
+ * The default audit sink: writes each entry as an `info` SDK log line,
+ * redacted unless `redactLogs` is `false`
+ */
+export function logVortexAudit(
+  entry: VortexAuditEntry,
+  request: FastifyRequest,
+  config?: Pick<VortexConfig, 'logger' | 'redactLogs' | 'apiKey'> | null
+): void {
+  logVortexEvent(
+    request,
+    config,
+    'info',
+    { ...entry, userId: entry.userId ?? undefined },
+    'Vortex audit'
+  );
+}
+
+function getOutcome(error: VortexHttpError | undefined): VortexAuditEntry['outcome'] {
+  if (!error) {
+    return 'success';
+  }
+  return error.statusCode === 401 || error.statusCode === 403 ? 'denied' : 'error';
+}
+
+/**
+ * Builds the audit entry for a handled request from its log fields and sends
+ * it to `config.onAudit`, or to `logVortexAudit` when none is set. Failures of
+ * the hook are logged, never surfaced to the client.
+ */
+export async function auditVortexRequest(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  config: VortexConfig | null,
+  fields: VortexLogFields,
+  error?: VortexHttpError
+): Promise<void> {
+  // Requests rejected before the handler loaded its configuration are audited too
+  const resolvedConfig = config ?? (await getVortexConfig(request).catch(() => null));
+  if (resolvedConfig?.onAudit === false) {
+    return;
+  }
+
+  const entry: VortexAuditEntry = {
+    operation: fields.operation ?? 'unknown',
+    method: request.method,
+    route: request.routeOptions?.url,
+    userId: fields.userId ?? null,
+    resource: {
+      ...(fields.invitationId !== undefined && { invitationId: fields.invitationId }),
+      ...(fields.invitationIds !== undefined && { invitationIds: fields.invitationIds }),
+      ...(fields.scopeType !== undefined && { scopeType: fields.scopeType }),
+      ...(fields.scope !== undefined && { scope: fields.scope }),
+      ...(fields.target !== undefined && { target: fields.target }),
+      ...(fields.targets !== undefined && { targets: fields.targets }),
+    },
+    decision:
+      fields.accessAllowed === undefined
+        ? null
+        : { hook: fields.accessHook ?? null, allowed: fields.accessAllowed },
+    outcome: getOutcome(error),
+    statusCode: error?.statusCode ?? reply.statusCode,
+    ...(error && { errorCode: error.code }),
+    ...(fields.upstreamLatencyMs !== undefined && { upstreamLatencyMs: fields.upstreamLatencyMs }),
+    ...(fields.upstreamAttempts !== undefined && { upstreamAttempts: fields.upstreamAttempts }),
+    ...(fields.cacheHit !== undefined && { cacheHit: fields.cacheHit }),
+    durationMs: reply.elapsedTime,
+    timestamp: new Date().toISOString(),
+  };
+
+  try {
+    if (resolvedConfig?.onAudit) {
+      await resolvedConfig.onAudit(entry, request);
+    } else {
+      logVortexAudit(entry, request, resolvedConfig);
+    }
+  } catch (auditError) {
+    logVortexEvent(
+      request,
+      resolvedConfig,
+      'warn',
+      { operation: entry.operation, error: auditError },
+      'Vortex audit hook failed'
+    );
+  }
+}
@@ -0,0 +1,239 @@
+import { createHash, randomUUID } from 'node:crypto';
+import type {
+  InvitationResult,
+  InvitationResultBase,
+} from '@teamvortexsoftware/vortex-node-22-sdk';
+import { isWebhookEvent, type VortexEvent } from '@teamvortexsoftware/vortex-node-22-sdk';
+
+/**
+ * Key-value store behind `VortexCache`. Implement it to cache in Redis or a
+ * similar shared backend; values are plain JSON-serializable objects.
+ */
+export interface VortexCacheStore {
+  /** Returns the stored value, or `undefined` when missing or expired */
+  get(key: string): unknown | Promise<unknown>;
+  /** Stores a value; without `ttlMs` it never expires (but may be evicted) */
+  set(key: string, value: unknown, ttlMs?: number): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+}
+
+export interface MemoryCacheStoreOptions {
+  /** Entries kept before the least recently used is evicted (default 1000) */
+  maxEntries?: number;
+}
+
+/**
+ * In-memory LRU store, the default `VortexCache` store. Entries are local to
+ * the process, so use a shared store when running several instances. Values are
+ * copied in and out, so filters that modify an invitation can't alter the cache.
+ */
+export class MemoryCacheStore implements VortexCacheStore {
+  private readonly entries = new Map<string, { value: unknown; expiresAt: number }>();
+  private readonly maxEntries: number;
+
+  constructor(options: MemoryCacheStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): unknown {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Re-insert to mark the entry as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return structuredClone(entry.value);
+  }
+
+  set(key: string, value: unknown, ttlMs?: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value: structuredClone(value),
+      expiresAt: ttlMs === undefined ? Infinity : Date.now() + ttlMs,
+    });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+}
+
+export interface VortexCacheOptions {
+  /** Defaults to a `MemoryCacheStore` */
+  store?: VortexCacheStore;
+  /** Lifetime of cached invitations (default 30 seconds) */
+  ttlMs?: number;
+  /** Lifetime of cached by-scope and by-target lists (defaults to `ttlMs`) */
+  listTtlMs?: number;
+  /** Prefix for every store key, to share a store between configurations (default `vortex:`) */
+  keyPrefix?: string;
+  /**
+   * Called when the store fails. Store failures never fail a request: reads
+   * fall back to the Vortex API.
+   */
+  onError?: (error: unknown) => void;
+}
+
+// Invitation lists are keyed under a generation that mutations rotate, since an
+// invitation can appear in any number of scope and target lists
+type Generation = 'invitations' | 'lists';
+
+/**
+ * Read-through cache for the invitation read routes, invalidated by the SDK's
+ * own mutation routes and, when passed to `createVortexWebhookHandler`, by
+ * webhook events.
+ *
+ * Usage:
+ * ```typescript
+ * const cache = new VortexCache({ ttlMs: 60_000 });
+ *
+ * configureVortex({ apiKey: process.env.VORTEX_API_KEY!, cache });
+ * app.post('/webhooks/vortex', createVortexWebhookHandler(webhooks, handlers, { cache }));
+ * ```
+ */
+export class VortexCache {
+  private readonly store: VortexCacheStore;
+  private readonly ttlMs: number;
+  private readonly listTtlMs: number;
+  private readonly keyPrefix: string;
+  private readonly onError?: (error: unknown) => void;
+
+  constructor(options: VortexCacheOptions = {}) {
+    this.store = options.store ?? new MemoryCacheStore();
+    this.ttlMs = options.ttlMs ?? 30_000;
+    this.listTtlMs = options.listTtlMs ?? this.ttlMs;
+    this.keyPrefix = options.keyPrefix ?? 'vortex:';
+    this.onError = options.onError;
+  }
+
+  getInvitation(
+    invitationId: string,
+    load: () => Promise<InvitationResult>
+  ): Promise<InvitationResult> {
+    return this.readThrough('invitations', ['invitation', invitationId], this.ttlMs, load);
+  }
+
+  getInvitationsByScope(
+    scopeType: string,
+    scope: string,
+    load: () => Promise<InvitationResult[]>
+  ): Promise<InvitationResult[]> {
+    return this.readThrough('lists', ['scope', scopeType, scope], this.listTtlMs, load);
+  }
+
+  getInvitationsByTarget(
+    targetType: string,
+    targetValue: string,
+    load: () => Promise<InvitationResultBase[]>
+  ): Promise<InvitationResultBase[]> {
+    // Hash the address so shared stores don't hold invitee emails and phone numbers in keys
+    const targetHash = createHash('sha256').update(targetValue.toLowerCase()).digest('hex');
+    return this.readThrough('lists', ['target', targetType, targetHash], this.listTtlMs, load);
+  }
+
+  /**
+   * Drops the given invitations and every cached list. Pass no IDs when
+   * invitations were created.
+   */
+  async invalidateInvitations(invitationIds: readonly string[] = []): Promise<void> {
+    await this.guard(async () => {
+      const generation = await this.getGeneration('invitations');
+      await Promise.all(
+        invitationIds.map((invitationId) =>
+          this.store.delete(this.toKey(generation, ['invitation', invitationId]))
+        )
+      );
+      await this.rotateGeneration('lists');
+    });
+  }
+
+  /** Drops everything cached, e.g. after invitations were deleted by scope */
+  async clear(): Promise<void> {
+    await this.guard(async () => {
+      await this.rotateGeneration('invitations');
+      await this.rotateGeneration('lists');
+    });
+  }
+
+  /**
+   * Invalidates what a webhook event changed. `invitation.*` events drop the
+   * invitation they carry (everything when it has no ID); other events are ignored.
+   */
+  async handleWebhookEvent(event: VortexEvent): Promise<void> {
+    if (!isWebhookEvent(event) || !event.type.startsWith('invitation.')) {
+      return;
+    }
+    const invitationId = event.data.invitationId ?? event.data.id;
+    if (typeof invitationId === 'string' && invitationId) {
+      await this.invalidateInvitations([invitationId]);
+    } else {
+      await this.clear();
+    }
+  }
+
+  private async readThrough<T>(
+    generationName: Generation,
+    parts: string[],
+    ttlMs: number,
+    load: () => Promise<T>
+  ): Promise<T> {
+    const key = await this.guard(async () => {
+      const generation = await this.getGeneration(generationName);
+      return this.toKey(generation, parts);
+    });
+    if (key === undefined) {
+      return load();
+    }
+
+    const cached = await this.guard(() => this.store.get(key));
+    if (cached !== undefined) {
+      return cached as T;
+    }
+
+    const value = await load();
+    await this.guard(() => this.store.set(key, value, ttlMs));
+    return value;
+  }
+
+  private toKey(generation: string, parts: string[]): string {
+    return `${this.keyPrefix}${[parts[0], generation, ...parts.slice(1)].map(encodeURIComponent).join(':')}`;
+  }
+
+  private async getGeneration(name: Generation): Promise<string> {
+    const key = `${this.keyPrefix}generation:${name}`;
+    const generation = await this.store.get(key);
+    if (typeof generation === 'string') {
+      return generation;
+    }
+    // A missing generation (never set, or evicted) starts a fresh one, which
+    // orphans any entries stored under the old one
+    return this.rotateGeneration(name);
+  }
+
+  private async rotateGeneration(name: Generation): Promise<string> {
+    const generation = randomUUID();
+    await this.store.set(`${this.keyPrefix}generation:${name}`, generation);
+    return generation;
+  }
+
+  private async guard<T>(operation: () => T | Promise<T>): Promise<T | undefined> {
+    try {
+      return await operation();
+    } catch (error) {
+      this.onError?.(error);
+      return undefined;
+    }
+  }
+}
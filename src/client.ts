@@ -0,0 +1,203 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { Vortex } from '@teamvortexsoftware/vortex-node-22-sdk';
+import type { FastifyRequest } from 'fastify';
+import type { VortexConfig } from './config';
+import { VortexCircuitOpenError } from './errors';
+import { logVortexEvent, VortexLogFields } from './logging';
+import {
+  VortexCircuitBreaker,
+  isUpstreamFailure,
+  waitBeforeRetry,
+  withTimeout,
+} from './resilience';
+
+/**
+ * The subset of the node SDK's `Vortex` client used by the Fastify handlers.
+ * Custom `createClient` factories (and test fakes) only need to implement these.
+ */
+export type VortexClient = Pick<
+  Vortex,
+  | 'generateJwt'
+  | 'getInvitationsByTarget'
+  | 'getInvitation'
+  | 'revokeInvitation'
+  | 'acceptInvitations'
+  | 'createInvitation'
+  | 'getInvitationsByScope'
+  | 'deleteInvitationsByScope'
+  | 'reinvite'
+  | 'syncInternalInvitation'
+>;
+
+export type VortexClientFactory = (config: VortexConfig) => VortexClient;
+
+type ApiRequestOptions = Parameters<Vortex['vortexApiRequest']>[0];
+
+const DEFAULT_VORTEX_API_BASE_URL = 'https://api.vortexsoftware.com';
+
+// Base URL of the `BaseUrlVortex` request running in the current async context
+const requestBaseUrl = new AsyncLocalStorage<string>();
+let fetchWrapped = false;
+
+/**
+ * Wraps the global `fetch` once so that requests the node SDK sends during a
+ * `BaseUrlVortex` call go to that client's base URL. Any other request is
+ * passed through untouched.
+ */
+function wrapFetchForBaseUrls() {
+  if (fetchWrapped) {
+    return;
+  }
+  fetchWrapped = true;
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (input, init) => {
+    const baseUrl = requestBaseUrl.getStore();
+    // The URL the SDK built, from its own base URL
+    const sdkBaseUrl = process.env.VORTEX_API_BASE_URL || DEFAULT_VORTEX_API_BASE_URL;
+    if (baseUrl !== undefined && typeof input === 'string' && input.startsWith(sdkBaseUrl)) {
+      return originalFetch(`${baseUrl}${input.slice(sdkBaseUrl.length)}`, init);
+    }
+    return originalFetch(input, init);
+  };
+}
+
+/**
+ * Vortex client bound to a specific API base URL.
+ *
+ * The node SDK only reads its base URL from `VORTEX_API_BASE_URL`. Its own
+ * `vortexApiRequest` still builds and sends each request, so headers and error
+ * handling are unchanged; only the URL is redirected, without touching
+ * `process.env`.
+ */
+class BaseUrlVortex extends Vortex {
+  private readonly baseUrl: string;
+
+  constructor(apiKey: string, apiBaseUrl: string) {
+    super(apiKey);
+    this.baseUrl = apiBaseUrl.replace(/\/$/, '');
+    wrapFetchForBaseUrls();
+  }
+
+  override vortexApiRequest(options: ApiRequestOptions) {
+    return requestBaseUrl.run(this.baseUrl, () => super.vortexApiRequest(options));
+  }
+}
+
+/**
+ * Default client factory: a node SDK `Vortex` client for `apiKey`, targeting
+ * `apiBaseUrl` when one is configured.
+ */
+export function createDefaultVortexClient(config: VortexConfig): VortexClient {
+  return config.apiBaseUrl
+    ? new BaseUrlVortex(config.apiKey, config.apiBaseUrl)
+    : new Vortex(config.apiKey);
+}
+
+// Clients are cached per factory, then per API key + base URL
+const clientCache = new WeakMap<VortexClientFactory, Map<string, VortexClient>>();
+
+/**
+ * Returns the Vortex client for a configuration, creating it on first use.
+ *
+ * Handlers share one client per factory, API key and base URL, so a custom
+ * `createClient` is only called once for each distinct configuration.
+ */
+export function getVortexClient(config: VortexConfig): VortexClient {
+  const factory = config.createClient ?? createDefaultVortexClient;
+
+  let clients = clientCache.get(factory);
+  if (!clients) {
+    clients = new Map();
+    clientCache.set(factory, clients);
+  }
+
+  const cacheKey = `${config.apiKey}\u0000${config.apiBaseUrl ?? ''}`;
+  let client = clients.get(cacheKey);
+  if (!client) {
+    client = factory(config);
+    clients.set(cacheKey, client);
+  }
+
+  return client;
+}
+
+// One circuit breaker per client, so every configuration sharing a client
+// (same factory, API key and base URL) sees the same upstream health
+const circuitBreakers = new WeakMap<VortexClient, VortexCircuitBreaker>();
+
+/**
+ * Returns the circuit breaker guarding a configuration's Vortex client, or
+ * `null` when `circuitBreaker` isn't configured. Use it to export the state
+ * as a metric.
+ */
+export function getVortexCircuitBreaker(config: VortexConfig): VortexCircuitBreaker | null {
+  if (!config.circuitBreaker) {
+    return null;
+  }
+  const client = getVortexClient(config);
+  let breaker = circuitBreakers.get(client);
+  if (!breaker) {
+    breaker = new VortexCircuitBreaker(config.circuitBreaker === true ? {} : config.circuitBreaker);
+    circuitBreakers.set(client, breaker);
+  }
+  return breaker;
+}
+
+export interface CallVortexApiOptions {
+  /** Safe to repeat: retried on upstream failures when `retry` is configured */
+  idempotent?: boolean;
+}
+
+/**
+ * Runs a Vortex API call, logging its latency (and failure) with `fields`.
+ * On failure `fields.upstreamLatencyMs` is set so the handler's error log carries it.
+ *
+ * The call is bounded by `timeoutMs`, guarded by the circuit breaker and, when
+ * `idempotent`, retried per `retry`.
+ */
+export async function callVortexApi<T>(
+  request: FastifyRequest,
+  config: VortexConfig,
+  fields: VortexLogFields,
+  call: (client: VortexClient) => T | Promise<T>,
+  options: CallVortexApiOptions = {}
+): Promise<T> {
+  const client = getVortexClient(config);
+  const breaker = getVortexCircuitBreaker(config);
+  const retry = options.idempotent && config.retry ? config.retry : null;
+  const retries = retry ? (retry.retries ?? 2) : 0;
+  const startedAt = performance.now();
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      breaker?.acquire();
+      const result = await withTimeout(Promise.resolve(call(client)), config.timeoutMs);
+      breaker?.recordSuccess();
+      fields.upstreamLatencyMs = Math.round(performance.now() - startedAt);
+      logVortexEvent(request, config, 'debug', fields, 'Vortex API call completed');
+      return result;
+    } catch (error) {
+      const upstreamFailure = isUpstreamFailure(error);
+      if (upstreamFailure) {
+        breaker?.recordFailure();
+      } else if (!(error instanceof VortexCircuitOpenError)) {
+        // Any other answer means the Vortex API is up
+        breaker?.recordSuccess();
+      }
+
+      if (!upstreamFailure || !retry || attempt >= retries) {
+        fields.upstreamLatencyMs = Math.round(performance.now() - startedAt);
+        throw error;
+      }
+      fields.upstreamAttempts = attempt + 2;
+      logVortexEvent(
+        request,
+        config,
+        'warn',
+        { ...fields, error },
+        'Vortex API call failed; retrying'
+      );
+      await waitBeforeRetry(retry, attempt);
+    }
+  }
+}
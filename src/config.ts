@@ -1,4 +1,26 @@
-import { FastifyRequest, FastifyReply } from 'fastify';
+import { FastifyBaseLogger, FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type {
+  InvitationResult,
+  InvitationResultBase,
+} from '@teamvortexsoftware/vortex-node-22-sdk';
+import type { VortexAuditHook } from './audit';
+import type { VortexCache } from './cache';
+import type { VortexClientFactory } from './client';
+import { VortexHttpError, type VortexErrorFormatter } from './errors';
+import type { VortexAfterHook, VortexBeforeHook } from './lifecycle';
+import { logVortexEvent } from './logging';
+import type { VortexCircuitBreakerOptions, VortexRetryOptions } from './resilience';
+import type { FieldProjection } from './utils';
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    /**
+     * Per-instance Vortex configuration, set by `vortexPlugin` (or `useVortexConfig`)
+     * on its encapsulated context. Takes precedence over the global configuration.
+     */
+    vortexConfig?: VortexConfig;
+  }
+}
 
 export interface AuthenticatedUser {
   userId: string;
@@ -11,6 +33,10 @@ export interface AuthenticatedUser {
   userName?: string;
   /** @deprecated Use avatarUrl instead */
   userAvatarUrl?: string;
+  /**
+   * Scopes the user administers. `createScopedAccessControl` matches entries of
+   * the form `scopeType:scopeId`, e.g. `team:team-1`.
+   */
   adminScopes?: string[];
   /**
    * Optional list of allowed email domains for invitation restrictions.
@@ -31,6 +57,8 @@ export interface AuthenticatedUser {
 // Resource types for access control hooks
 export interface InvitationResource {
   invitationId: string;
+  /** The invitation itself, when `prefetchInvitation` is enabled */
+  invitation?: InvitationResult;
 }
 
 export interface SyncInternalInvitationResource {
@@ -53,6 +81,30 @@ export interface InvitationTargetResource {
   };
 }
 
+export interface CreateInvitationResource {
+  widgetConfigurationId: string;
+  targets: {
+    type: 'email' | 'phone' | 'internal';
+    value: string;
+    name?: string;
+    avatarUrl?: string;
+  }[];
+  /** Distinct delivery types of `targets` */
+  deliveryTypes: ('email' | 'phone' | 'internal')[];
+  scope?: {
+    scopeId: string;
+    scopeType: string;
+    scopeName?: string;
+  };
+  /** The inviter, taken from the authenticated user */
+  inviter: {
+    userId: string;
+    userEmail?: string;
+    name?: string;
+    avatarUrl?: string;
+  };
+}
+
 export interface ScopeResource {
   scopeType: string;
   scope: string;
@@ -79,15 +131,67 @@ export interface AccessControlHook<T = unknown> {
 // Specific hook types for better type safety
 export type InvitationAccessHook = AccessControlHook<InvitationResource>;
 export type InvitationTargetAccessHook = AccessControlHook<InvitationTargetResource>;
+export type CreateInvitationAccessHook = AccessControlHook<CreateInvitationResource>;
 export type SyncInternalInvitationAccessHook = AccessControlHook<SyncInternalInvitationResource>;
 export type ScopeAccessHook = AccessControlHook<ScopeResource>;
 /** @deprecated Use ScopeAccessHook instead */
 export type GroupAccessHook = ScopeAccessHook;
 export type BasicAccessHook = AccessControlHook<void>;
 
+/**
+ * Transforms an invitation before it is sent, e.g. to remove fields the user shouldn't see
+ */
+export type InvitationFilter = (
+  request: FastifyRequest,
+  reply: FastifyReply,
+  user: AuthenticatedUser | null,
+  invitation: InvitationResult
+) => Partial<InvitationResult> | Promise<Partial<InvitationResult>>;
+
+/**
+ * Filters the invitations returned by the list routes, e.g. to the ones the user may see
+ */
+export type InvitationListFilter = (
+  request: FastifyRequest,
+  user: AuthenticatedUser | null,
+  invitations: InvitationResultBase[]
+) => InvitationResultBase[] | Promise<InvitationResultBase[]>;
+
+/**
+ * Field projection for the list routes, or a function choosing one per request
+ * (return `null` to send invitations unchanged)
+ */
+export type InvitationProjection =
+  | FieldProjection
+  | ((
+      request: FastifyRequest,
+      user: AuthenticatedUser | null
+    ) => FieldProjection | null | undefined | Promise<FieldProjection | null | undefined>);
+
 export interface VortexConfig {
   apiKey: string;
   apiBaseUrl?: string;
+  /**
+   * Creates the Vortex client used by the handlers. Defaults to a node SDK
+   * `Vortex` client built from `apiKey` and `apiBaseUrl`. The result is cached,
+   * so the factory runs once per API key and base URL.
+   */
+  createClient?: VortexClientFactory;
+  /**
+   * Milliseconds to wait for each Vortex API call before answering `504`
+   * (default: no timeout)
+   */
+  timeoutMs?: number;
+  /**
+   * Retry idempotent calls (gets, revoke, delete by scope) with exponential
+   * backoff when the Vortex API fails with 5xx or 429, can't be reached or times out
+   */
+  retry?: VortexRetryOptions;
+  /**
+   * Fail fast with `503` once the Vortex API keeps failing. `true` uses the
+   * defaults; see `getVortexCircuitBreaker(config)` for its state.
+   */
+  circuitBreaker?: boolean | VortexCircuitBreakerOptions;
   authenticateUser?: (
     request: FastifyRequest,
     reply: FastifyReply
@@ -97,12 +201,75 @@ export interface VortexConfig {
   canAccessInvitation?: InvitationAccessHook;
   canDeleteInvitation?: InvitationAccessHook;
   canAcceptInvitations?: InvitationTargetAccessHook;
+  canCreateInvitation?: CreateInvitationAccessHook;
   canAccessInvitationsByGroup?: GroupAccessHook;
   canAccessInvitationsByScope?: ScopeAccessHook;
   canDeleteInvitationsByGroup?: GroupAccessHook;
   canDeleteInvitationsByScope?: ScopeAccessHook;
   canReinvite?: InvitationAccessHook;
   canSyncInternalInvitation?: SyncInternalInvitationAccessHook;
+  // Lifecycle hooks around Vortex operations, run after access control
+  beforeAcceptInvitations?: VortexBeforeHook<'acceptInvitations'>;
+  afterAcceptInvitations?: VortexAfterHook<'acceptInvitations'>;
+  beforeRevokeInvitation?: VortexBeforeHook<'revokeInvitation'>;
+  afterRevokeInvitation?: VortexAfterHook<'revokeInvitation'>;
+  beforeReinvite?: VortexBeforeHook<'reinvite'>;
+  afterReinvite?: VortexAfterHook<'reinvite'>;
+  beforeDeleteInvitationsByScope?: VortexBeforeHook<'deleteInvitationsByScope'>;
+  afterDeleteInvitationsByScope?: VortexAfterHook<'deleteInvitationsByScope'>;
+  beforeSyncInternalInvitation?: VortexBeforeHook<'syncInternalInvitation'>;
+  afterSyncInternalInvitation?: VortexAfterHook<'syncInternalInvitation'>;
+  beforeGenerateJwt?: VortexBeforeHook<'generateJwt'>;
+  afterGenerateJwt?: VortexAfterHook<'generateJwt'>;
+  /**
+   * Fetch the invitation before calling `canAccessInvitation`, `canDeleteInvitation`
+   * and `canReinvite`, and pass it as `resource.invitation`. Revoke and reinvite
+   * then make one extra Vortex API call.
+   */
+  prefetchInvitation?: boolean;
+  /**
+   * Whose identity `POST /invitations/accept` accepts with. `authenticated`
+   * (default) takes it from the authenticated user's `userEmail` and
+   * `identifiers`, rejects a body `user`/`target` that doesn't match them, and
+   * rejects invitations addressed to someone else. `body` trusts the request
+   * body, leaving the check to `canAcceptInvitations`.
+   */
+  acceptIdentity?: 'authenticated' | 'body';
+  /** Applied to the invitation returned by the get and reinvite routes */
+  filterInvitation?: InvitationFilter;
+  /** Applied to the invitations returned by the by-target and by-scope list routes */
+  filterInvitations?: InvitationListFilter;
+  /**
+   * Fields sent for each invitation by the list routes, applied after
+   * `filterInvitations`. E.g. `{ exclude: ['target.value'] }` strips invitee addresses.
+   */
+  invitationProjection?: InvitationProjection;
+  /**
+   * Caches Vortex API reads for the get and list routes. The SDK's mutation
+   * routes invalidate it; pass the same cache to `createVortexWebhookHandler`
+   * to invalidate it on webhook events too.
+   */
+  cache?: VortexCache;
+  /**
+   * Builds error response bodies. Defaults to `{ error, code, details? }`;
+   * use `createProblemDetailsFormatter()` for RFC 7807 problem details.
+   */
+  formatError?: VortexErrorFormatter;
+  /**
+   * Logger for SDK log lines. Defaults to `request.log`, so lines carry the
+   * request ID and go through your Fastify logger.
+   */
+  logger?: FastifyBaseLogger;
+  /**
+   * Mask emails, phone numbers and the API key in SDK log lines (default `true`)
+   */
+  redactLogs?: boolean;
+  /**
+   * Receives an entry for every invitation route request: user, resource,
+   * access decision, outcome and timing, including denied attempts. Defaults
+   * to `logVortexAudit`, an `info` SDK log line; `false` disables auditing.
+   */
+  onAudit?: VortexAuditHook | false;
 }
 
 // Store configuration template (immutable after first set)
@@ -111,6 +278,12 @@ let isConfigLocked = false;
 let configPromise: Promise<void> | null = null;
 let lazyConfigFactory: (() => Promise<VortexConfig>) | null = null;
 
+function validateVortexConfig(config: VortexConfig): void {
+  if (!config.apiKey && !process.env.VORTEX_API_KEY) {
+    throw new Error('API key is required in config or VORTEX_API_KEY environment variable');
+  }
+}
+
 export function configureVortex(config: VortexConfig): void {
   if (isConfigLocked && configTemplate) {
     throw new Error(
@@ -119,9 +292,7 @@ export function configureVortex(config: VortexConfig): void {
   }
 
   // Validate required config
-  if (!config.apiKey && !process.env.VORTEX_API_KEY) {
-    throw new Error('API key is required in config or VORTEX_API_KEY environment variable');
-  }
+  validateVortexConfig(config);
 
   configTemplate = { ...config };
   isConfigLocked = true;
@@ -148,24 +319,31 @@ export function configureVortexLazy(configFactory: () => Promise<VortexConfig>):
   lazyConfigFactory = configFactory;
 }
 
-export async function getVortexConfig(): Promise<VortexConfig> {
-  // Initialize lazily if lazy factory is set and config hasn't been initialized
-  if (lazyConfigFactory && !configTemplate && !configPromise) {
-    // Lazy initializing Vortex configuration
-    configPromise = lazyConfigFactory().then((config) => {
-      configureVortex(config);
-    });
-  }
+/**
+ * Attaches a Vortex configuration to a Fastify instance.
+ *
+ * Because Fastify decorators are encapsulated, the configuration only applies to
+ * routes registered on this instance and its children. `vortexPlugin` calls this
+ * when given a `config` option; use it directly when mounting handlers from
+ * `createVortexRoutes()` inside your own plugin.
+ */
+export function useVortexConfig(fastify: FastifyInstance, config: VortexConfig): void {
+  validateVortexConfig(config);
 
-  // Wait for async configuration to complete if it's in progress
-  if (configPromise && !configTemplate) {
-    await configPromise;
+  const instanceConfig = { ...config };
+  if (fastify.hasDecorator('vortexConfig')) {
+    // Decorated by a parent context - shadow it on this instance only
+    fastify.vortexConfig = instanceConfig;
+  } else {
+    fastify.decorate('vortexConfig', instanceConfig);
   }
+}
 
+function resolveVortexConfig(template: VortexConfig | null): VortexConfig {
   // Create a fresh config for each request
   const baseConfig: VortexConfig = {
-    apiKey: configTemplate?.apiKey || process.env.VORTEX_API_KEY!,
-    apiBaseUrl: configTemplate?.apiBaseUrl || process.env.VORTEX_API_BASE_URL,
+    apiKey: template?.apiKey || process.env.VORTEX_API_KEY!,
+    apiBaseUrl: template?.apiBaseUrl || process.env.VORTEX_API_BASE_URL,
   };
 
   if (!baseConfig.apiKey) {
@@ -175,46 +353,100 @@ export async function getVortexConfig(): Promise<VortexConfig> {
   }
 
   // Copy hooks from template if they exist
-  if (configTemplate) {
-    return {
-      ...baseConfig,
-      authenticateUser: configTemplate.authenticateUser,
-      canAccessInvitationsByTarget: configTemplate.canAccessInvitationsByTarget,
-      canAccessInvitation: configTemplate.canAccessInvitation,
-      canDeleteInvitation: configTemplate.canDeleteInvitation,
-      canAcceptInvitations: configTemplate.canAcceptInvitations,
-      canAccessInvitationsByGroup: configTemplate.canAccessInvitationsByGroup,
-      canAccessInvitationsByScope: configTemplate.canAccessInvitationsByScope,
-      canDeleteInvitationsByGroup: configTemplate.canDeleteInvitationsByGroup,
-      canDeleteInvitationsByScope: configTemplate.canDeleteInvitationsByScope,
-      canReinvite: configTemplate.canReinvite,
-      canSyncInternalInvitation: configTemplate.canSyncInternalInvitation,
-    };
+  if (template) {
+    return { ...template, ...baseConfig };
   }
 
   return baseConfig;
 }
 
+/**
+ * Returns the Vortex configuration for a request.
+ *
+ * When the request was routed through a Fastify context that carries its own
+ * configuration (see `useVortexConfig`), that configuration is used. Otherwise
+ * this falls back to the global configuration set via `configureVortex*`.
+ */
+export async function getVortexConfig(request?: FastifyRequest): Promise<VortexConfig> {
+  const instanceConfig = request?.server?.vortexConfig;
+  if (instanceConfig) {
+    return resolveVortexConfig(instanceConfig);
+  }
+
+  // Initialize lazily if lazy factory is set and config hasn't been initialized
+  if (lazyConfigFactory && !configTemplate && !configPromise) {
+    // Lazy initializing Vortex configuration
+    configPromise = lazyConfigFactory().then((config) => {
+      configureVortex(config);
+    });
+  }
+
+  // Wait for async configuration to complete if it's in progress
+  if (configPromise && !configTemplate) {
+    await configPromise;
+  }
+
+  return resolveVortexConfig(configTemplate);
+}
+
+// Users already resolved per request, so hooks that run before the handler
+// (e.g. per-user rate limiting) don't call `authenticateUser` a second time
+const authenticatedUsers = new WeakMap<FastifyRequest, AuthenticatedUser | null>();
+
 // Helper function to authenticate user for any request
 export async function authenticateRequest(
   request: FastifyRequest,
   reply: FastifyReply
 ): Promise<AuthenticatedUser | null> {
-  const config = await getVortexConfig();
+  if (authenticatedUsers.has(request)) {
+    return authenticatedUsers.get(request)!;
+  }
+
+  const config = await getVortexConfig(request);
 
   if (!config.authenticateUser) {
     return null;
   }
 
   try {
-    return await config.authenticateUser(request, reply);
+    const user = await config.authenticateUser(request, reply);
+    authenticatedUsers.set(request, user);
+    return user;
   } catch (error) {
+    // Deliberate HTTP errors (e.g. VortexUnauthorizedError) reach the client as thrown
+    if (error instanceof VortexHttpError) {
+      throw error;
+    }
     // Log error but don't expose details
-    console.error('Authentication error:', error);
+    logVortexEvent(
+      request,
+      config,
+      'error',
+      { operation: 'authenticateUser', error },
+      'Vortex authenticateUser hook failed'
+    );
     return null;
   }
 }
 
+/**
+ * The `can*` access control hooks of a configuration
+ */
+export type VortexAccessControlHooks = Pick<
+  VortexConfig,
+  | 'canAccessInvitationsByTarget'
+  | 'canAccessInvitation'
+  | 'canDeleteInvitation'
+  | 'canAcceptInvitations'
+  | 'canCreateInvitation'
+  | 'canAccessInvitationsByGroup'
+  | 'canAccessInvitationsByScope'
+  | 'canDeleteInvitationsByGroup'
+  | 'canDeleteInvitationsByScope'
+  | 'canReinvite'
+  | 'canSyncInternalInvitation'
+>;
+
 /**
  * Creates a set of access control hooks that allow all operations.
  * Useful for demos, development, or when you want to handle authorization elsewhere.
@@ -227,6 +459,7 @@ export function createAllowAllAccessControl() {
     canAccessInvitation: allowAll,
     canDeleteInvitation: allowAll,
     canAcceptInvitations: allowAll,
+    canCreateInvitation: allowAll,
     canAccessInvitationsByGroup: allowAll,
     canAccessInvitationsByScope: allowAll,
     canDeleteInvitationsByGroup: allowAll,
@@ -235,3 +468,25 @@ export function createAllowAllAccessControl() {
     canSyncInternalInvitation: allowAll,
   } satisfies Partial<VortexConfig>;
 }
+
+/**
+ * Creates a set of access control hooks that deny all operations.
+ * Useful as a base when composing hooks, so unlisted operations stay closed.
+ */
+export function createDenyAllAccessControl() {
+  const denyAll = async () => false;
+
+  return {
+    canAccessInvitationsByTarget: denyAll,
+    canAccessInvitation: denyAll,
+    canDeleteInvitation: denyAll,
+    canAcceptInvitations: denyAll,
+    canCreateInvitation: denyAll,
+    canAccessInvitationsByGroup: denyAll,
+    canAccessInvitationsByScope: denyAll,
+    canDeleteInvitationsByGroup: denyAll,
+    canDeleteInvitationsByScope: denyAll,
+    canReinvite: denyAll,
+    canSyncInternalInvitation: denyAll,
+  } satisfies Partial<VortexConfig>;
+}
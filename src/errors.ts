@@ -0,0 +1,308 @@
+import { STATUS_CODES } from 'node:http';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import type { VortexConfig } from './config';
+
+/**
+ * Stable, machine-readable error codes sent in the `code` field of error responses
+ */
+export const VortexErrorCodes = {
+  VALIDATION_FAILED: 'VALIDATION_FAILED',
+  UNAUTHORIZED: 'UNAUTHORIZED',
+  ACCESS_DENIED: 'ACCESS_DENIED',
+  INVITATION_TARGET_MISMATCH: 'INVITATION_TARGET_MISMATCH',
+  INVITATION_NOT_FOUND: 'INVITATION_NOT_FOUND',
+  METHOD_NOT_ALLOWED: 'METHOD_NOT_ALLOWED',
+  INVITATION_CONFLICT: 'INVITATION_CONFLICT',
+  RATE_LIMITED: 'RATE_LIMITED',
+  IDEMPOTENCY_KEY_IN_USE: 'IDEMPOTENCY_KEY_IN_USE',
+  IDEMPOTENCY_KEY_REUSED: 'IDEMPOTENCY_KEY_REUSED',
+  UPSTREAM_REJECTED: 'UPSTREAM_REJECTED',
+  UPSTREAM_UNAVAILABLE: 'UPSTREAM_UNAVAILABLE',
+  UPSTREAM_TIMEOUT: 'UPSTREAM_TIMEOUT',
+  UPSTREAM_CIRCUIT_OPEN: 'UPSTREAM_CIRCUIT_OPEN',
+  CONFIGURATION_ERROR: 'CONFIGURATION_ERROR',
+  INTERNAL_ERROR: 'INTERNAL_ERROR',
+} as const;
+
+export type VortexErrorCode = (typeof VortexErrorCodes)[keyof typeof VortexErrorCodes];
+
+export interface VortexHttpErrorOptions {
+  /** Extra machine-readable context sent as `details` */
+  details?: unknown;
+  /** Underlying error, kept for logging and never sent to clients */
+  cause?: unknown;
+  /** Seconds the client should wait before retrying, sent as `Retry-After` */
+  retryAfter?: number;
+}
+
+/**
+ * Base class for errors that the Vortex handlers turn into HTTP responses.
+ * Throw one from a hook (e.g. `authenticateUser`) or custom handler to control
+ * the status and code the client receives.
+ */
+export class VortexHttpError extends Error {
+  readonly statusCode: number;
+  readonly code: VortexErrorCode | (string & {});
+  readonly details?: unknown;
+  readonly retryAfter?: number;
+
+  constructor(
+    statusCode: number,
+    code: VortexErrorCode | (string & {}),
+    message: string,
+    options: VortexHttpErrorOptions = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'VortexHttpError';
+    this.statusCode = statusCode;
+    this.code = code;
+    this.details = options.details;
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+export class VortexValidationError extends VortexHttpError {
+  constructor(message: string = 'Invalid request', options?: VortexHttpErrorOptions) {
+    super(400, VortexErrorCodes.VALIDATION_FAILED, message, options);
+    this.name = 'VortexValidationError';
+  }
+}
+
+export class VortexUnauthorizedError extends VortexHttpError {
+  constructor(message: string = 'Unauthorized', options?: VortexHttpErrorOptions) {
+    super(401, VortexErrorCodes.UNAUTHORIZED, message, options);
+    this.name = 'VortexUnauthorizedError';
+  }
+}
+
+export class VortexAccessDeniedError extends VortexHttpError {
+  constructor(message: string = 'Access denied', options?: VortexHttpErrorOptions) {
+    super(403, VortexErrorCodes.ACCESS_DENIED, message, options);
+    this.name = 'VortexAccessDeniedError';
+  }
+}
+
+export class VortexNotFoundError extends VortexHttpError {
+  constructor(message: string = 'Invitation not found', options?: VortexHttpErrorOptions) {
+    super(404, VortexErrorCodes.INVITATION_NOT_FOUND, message, options);
+    this.name = 'VortexNotFoundError';
+  }
+}
+
+export class VortexMethodNotAllowedError extends VortexHttpError {
+  constructor(message: string = 'Method not allowed', options?: VortexHttpErrorOptions) {
+    super(405, VortexErrorCodes.METHOD_NOT_ALLOWED, message, options);
+    this.name = 'VortexMethodNotAllowedError';
+  }
+}
+
+export class VortexConflictError extends VortexHttpError {
+  constructor(
+    message: string = 'The invitation is in a conflicting state',
+    options?: VortexHttpErrorOptions
+  ) {
+    super(409, VortexErrorCodes.INVITATION_CONFLICT, message, options);
+    this.name = 'VortexConflictError';
+  }
+}
+
+export class VortexRateLimitError extends VortexHttpError {
+  declare readonly retryAfter: number;
+
+  constructor(
+    retryAfter: number,
+    message: string = 'Too many requests',
+    options?: VortexHttpErrorOptions
+  ) {
+    super(429, VortexErrorCodes.RATE_LIMITED, message, {
+      details: { retryAfter },
+      ...options,
+      retryAfter,
+    });
+    this.name = 'VortexRateLimitError';
+  }
+}
+
+export class VortexUnprocessableError extends VortexHttpError {
+  constructor(
+    message: string = 'The Vortex API rejected the request',
+    options?: VortexHttpErrorOptions
+  ) {
+    super(422, VortexErrorCodes.UPSTREAM_REJECTED, message, options);
+    this.name = 'VortexUnprocessableError';
+  }
+}
+
+export class VortexUpstreamError extends VortexHttpError {
+  /** HTTP status returned by the Vortex API, when it responded at all */
+  readonly upstreamStatus?: number;
+
+  constructor(
+    message: string = 'The Vortex API is unavailable',
+    options: VortexHttpErrorOptions & { upstreamStatus?: number } = {}
+  ) {
+    super(502, VortexErrorCodes.UPSTREAM_UNAVAILABLE, message, options);
+    this.name = 'VortexUpstreamError';
+    this.upstreamStatus = options.upstreamStatus;
+  }
+}
+
+export class VortexCircuitOpenError extends VortexHttpError {
+  constructor(
+    retryAfter: number,
+    message: string = 'The Vortex API is temporarily unavailable',
+    options?: VortexHttpErrorOptions
+  ) {
+    super(503, VortexErrorCodes.UPSTREAM_CIRCUIT_OPEN, message, { ...options, retryAfter });
+    this.name = 'VortexCircuitOpenError';
+  }
+}
+
+export class VortexUpstreamTimeoutError extends VortexHttpError {
+  constructor(
+    message: string = 'The Vortex API did not respond in time',
+    options?: VortexHttpErrorOptions
+  ) {
+    super(504, VortexErrorCodes.UPSTREAM_TIMEOUT, message, options);
+    this.name = 'VortexUpstreamTimeoutError';
+  }
+}
+
+export class VortexConfigurationError extends VortexHttpError {
+  constructor(message: string, options?: VortexHttpErrorOptions) {
+    super(500, VortexErrorCodes.CONFIGURATION_ERROR, message, options);
+    this.name = 'VortexConfigurationError';
+  }
+}
+
+export class VortexInternalError extends VortexHttpError {
+  constructor(
+    message: string = 'An error occurred while processing your request',
+    options?: VortexHttpErrorOptions
+  ) {
+    super(500, VortexErrorCodes.INTERNAL_ERROR, message, options);
+    this.name = 'VortexInternalError';
+  }
+}
+
+// Message format of failed requests in the node SDK's `vortexApiRequest`
+const VORTEX_API_ERROR_PATTERN = /^Vortex API request failed: (\d{3})\b/;
+
+/**
+ * Converts anything thrown while handling a request into a `VortexHttpError`.
+ *
+ * Failed Vortex API calls are mapped by their upstream status: 404 becomes
+ * `INVITATION_NOT_FOUND`, 409 `INVITATION_CONFLICT`, other 4xx
+ * `UPSTREAM_REJECTED` (422), and 5xx, 429 or network failures
+ * `UPSTREAM_UNAVAILABLE` (502). Anything else becomes a generic 500.
+ */
+export function toVortexHttpError(error: unknown): VortexHttpError {
+  if (error instanceof VortexHttpError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : '';
+  const match = VORTEX_API_ERROR_PATTERN.exec(message);
+  if (match) {
+    const upstreamStatus = Number(match[1]);
+    const options = { cause: error, details: { upstreamStatus } };
+
+    if (upstreamStatus === 404) {
+      return new VortexNotFoundError(undefined, options);
+    }
+    if (upstreamStatus === 409) {
+      return new VortexConflictError(undefined, options);
+    }
+    if (upstreamStatus >= 400 && upstreamStatus < 500 && upstreamStatus !== 429) {
+      return new VortexUnprocessableError(undefined, options);
+    }
+    return new VortexUpstreamError(undefined, { ...options, upstreamStatus });
+  }
+
+  // fetch() rejects with a TypeError when the Vortex API can't be reached
+  if (error instanceof TypeError && message === 'fetch failed') {
+    return new VortexUpstreamError(undefined, { cause: error });
+  }
+
+  return new VortexInternalError(undefined, { cause: error });
+}
+
+/**
+ * Builds the response body for an error. Return the body to send; use `reply`
+ * to change headers such as the content type.
+ */
+export type VortexErrorFormatter = (
+  error: VortexHttpError,
+  request: FastifyRequest,
+  reply: FastifyReply
+) => unknown;
+
+/**
+ * Default error body: `{ error, code, details? }`. `error` keeps the
+ * human-readable message earlier SDK versions sent.
+ */
+export function formatVortexError(error: VortexHttpError): {
+  error: string;
+  code: string;
+  details?: unknown;
+} {
+  return {
+    error: error.message,
+    code: error.code,
+    ...(error.details !== undefined && { details: error.details }),
+  };
+}
+
+/**
+ * Creates a `formatError` hook that emits RFC 7807 `application/problem+json`.
+ *
+ * Usage:
+ * ```typescript
+ * configureVortex({
+ *   apiKey: process.env.VORTEX_API_KEY!,
+ *   formatError: createProblemDetailsFormatter({ typeBaseUri: 'https://errors.example.com/' }),
+ * });
+ * ```
+ */
+export function createProblemDetailsFormatter(options: { typeBaseUri?: string } = {}) {
+  return function formatProblemDetails(
+    error: VortexHttpError,
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    reply.type('application/problem+json');
+    return {
+      type: options.typeBaseUri
+        ? `${options.typeBaseUri}${error.code.toLowerCase().replace(/_/g, '-')}`
+        : 'about:blank',
+      title: STATUS_CODES[error.statusCode] ?? 'Error',
+      status: error.statusCode,
+      detail: error.message,
+      instance: request.url,
+      code: error.code,
+      ...(error.details !== undefined && { details: error.details }),
+    };
+  } satisfies VortexErrorFormatter;
+}
+
+/**
+ * Sends an error response for anything thrown while handling a Vortex route,
+ * using the configuration's `formatError` hook when one is set. Errors with a
+ * `retryAfter` also get a `Retry-After` header.
+ */
+export function sendVortexError(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  error: unknown,
+  config?: Pick<VortexConfig, 'formatError'> | null
+): FastifyReply {
+  const httpError = toVortexHttpError(error);
+  const body = config?.formatError
+    ? config.formatError(httpError, request, reply)
+    : formatVortexError(httpError);
+
+  if (httpError.retryAfter !== undefined) {
+    reply.header('Retry-After', String(httpError.retryAfter));
+  }
+  return reply.status(httpError.statusCode).send(body);
+}
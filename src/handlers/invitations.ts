@@ -1,160 +1,565 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
-import { Vortex } from '@teamvortexsoftware/vortex-node-22-sdk';
-import { getVortexConfig, authenticateRequest } from '../config';
+import type { AcceptUser } from '@teamvortexsoftware/vortex-node-22-sdk';
+import type {
+  CreateInvitationResponse,
+  InvitationResult,
+  InvitationResultBase,
+} from '@teamvortexsoftware/vortex-node-22-sdk';
+import { auditVortexRequest } from '../audit';
+import {
+  getVortexConfig,
+  authenticateRequest,
+  AccessControlHook,
+  AuthenticatedUser,
+  CreateInvitationResource,
+  InvitationResource,
+  VortexAccessControlHooks,
+  VortexConfig,
+} from '../config';
+import type { VortexCache } from '../cache';
+import { callVortexApi, VortexClient } from '../client';
+import {
+  VortexAccessDeniedError,
+  VortexErrorCodes,
+  VortexHttpError,
+  VortexMethodNotAllowedError,
+  VortexUnauthorizedError,
+  VortexValidationError,
+  sendVortexError,
+  toVortexHttpError,
+} from '../errors';
+import { runAfterHook, runBeforeHook, VortexOperationContext } from '../lifecycle';
+import { logVortexEvent, VortexLogFields } from '../logging';
+import { InvitationListQuery, paginateInvitations, parseInvitationListQuery } from '../pagination';
 import {
   createApiResponse,
-  createErrorResponse,
   parseRequestBody,
   validateRequiredFields,
   getQueryParam,
-  getRouteParam,
+  projectFields,
   sanitizeInput,
 } from '../utils';
+import type {
+  AcceptInvitationsBody,
+  CreateInvitationBody,
+  CreateInvitationFailure,
+  SyncInternalInvitationBody,
+  VortexAcceptInvitationsRoute,
+  VortexCreateInvitationRoute,
+  VortexInvitationRoute,
+  VortexInvitationsByGroupRoute,
+  VortexInvitationsByScopeRoute,
+  VortexInvitationsByTargetRoute,
+  VortexSyncInternalInvitationRoute,
+} from '../schemas';
+
+const UNCONFIGURED_ACCESS_MESSAGE =
+  'Access denied. Configure access control hooks for invitation endpoints.';
 
-export async function handleGetInvitationsByTarget(request: FastifyRequest, reply: FastifyReply) {
+/**
+ * Reads the scope route params, accepting the deprecated `groupType`/`groupId` names
+ */
+function getScopeParams(
+  request: FastifyRequest<VortexInvitationsByScopeRoute | VortexInvitationsByGroupRoute>
+): { scopeType: string | null; scope: string | null } {
+  const params = request.params as Partial<
+    VortexInvitationsByScopeRoute['Params'] & VortexInvitationsByGroupRoute['Params']
+  >;
+  return {
+    scopeType: params.scopeType ?? params.groupType ?? null,
+    scope: params.scope ?? params.groupId ?? null,
+  };
+}
+
+/**
+ * Runs an idempotent Vortex API read, through `config.cache` when one is
+ * configured, noting the outcome in `fields.cacheHit`
+ */
+async function readVortexApi<T>(
+  request: FastifyRequest,
+  config: VortexConfig,
+  fields: VortexLogFields,
+  call: (client: VortexClient) => Promise<T>,
+  read: (cache: VortexCache, load: () => Promise<T>) => Promise<T>
+): Promise<T> {
+  if (!config.cache) {
+    return callVortexApi(request, config, fields, call, { idempotent: true });
+  }
+  fields.cacheHit = true;
+  return read(config.cache, () => {
+    fields.cacheHit = false;
+    return callVortexApi(request, config, fields, call, { idempotent: true });
+  });
+}
+
+/**
+ * Builds the resource for single-invitation access hooks, fetching the
+ * invitation first when `prefetchInvitation` is enabled
+ */
+async function getInvitationResource(
+  request: FastifyRequest,
+  config: VortexConfig,
+  fields: VortexLogFields,
+  invitationId: string
+): Promise<InvitationResource> {
+  if (!config.prefetchInvitation) {
+    return { invitationId };
+  }
+  const invitation = await readVortexApi(
+    request,
+    config,
+    fields,
+    (vortex) => vortex.getInvitation(invitationId),
+    (cache, load) => cache.getInvitation(invitationId, load)
+  );
+  return { invitationId, invitation };
+}
+
+/** Addresses an authenticated user can accept invitations with */
+interface AcceptIdentity {
+  userId: string;
+  emails: string[];
+  phones: string[];
+}
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+const normalizePhone = (phone: string) => phone.replace(/\D/g, '');
+
+function getAcceptIdentity(user: AuthenticatedUser): AcceptIdentity {
+  const identifiers = user.identifiers ?? [];
+  return {
+    userId: user.userId,
+    emails: [
+      ...(user.userEmail ? [user.userEmail] : []),
+      ...identifiers.filter((id) => id.type === 'email').map((id) => id.value),
+    ],
+    phones: identifiers.filter((id) => id.type === 'phone').map((id) => id.value),
+  };
+}
+
+/**
+ * Whether an invitation target is addressed to the user. Share targets are
+ * link-only, so any authenticated user may accept them.
+ */
+function isAddressedTo(identity: AcceptIdentity, target: { type: string; value: string }) {
+  switch (target.type) {
+    case 'share':
+      return true;
+    case 'internal':
+      return target.value === identity.userId;
+    case 'email':
+      return identity.emails.some(
+        (email) => normalizeEmail(email) === normalizeEmail(target.value)
+      );
+    case 'phone':
+    case 'phoneNumber':
+      return identity.phones.some(
+        (phone) => normalizePhone(phone) === normalizePhone(target.value)
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Builds the accepting user from the authenticated user. A body-supplied
+ * identity must be one of the user's own addresses.
+ */
+function getAuthenticatedAcceptUser(
+  user: AuthenticatedUser,
+  identity: AcceptIdentity,
+  claimed: AcceptUser | { type: string; value: string } | null
+): AcceptUser {
+  if (identity.emails.length === 0 && identity.phones.length === 0) {
+    throw new VortexAccessDeniedError(
+      'The authenticated user has no email or phone to accept invitations with'
+    );
+  }
+
+  const claimedTargets: { type: string; value: string }[] = !claimed
+    ? []
+    : 'type' in claimed
+      ? [claimed]
+      : [
+          ...(claimed.email ? [{ type: 'email', value: claimed.email }] : []),
+          ...(claimed.phone ? [{ type: 'phone', value: claimed.phone }] : []),
+        ];
+  if (!claimedTargets.every((target) => isAddressedTo(identity, target))) {
+    throw new VortexAccessDeniedError('The accepting identity must match the authenticated user');
+  }
+
+  const claimedEmail = claimedTargets.find((target) => target.type === 'email')?.value;
+  const claimedPhone = claimedTargets.find((target) => target.type !== 'email')?.value;
+  const email = claimedEmail ?? (claimedPhone ? undefined : identity.emails[0]);
+  const phone = claimedPhone ?? (email ? undefined : identity.phones[0]);
+  const name = user.name ?? user.userName;
+  return {
+    ...(email && { email }),
+    ...(phone && { phone }),
+    ...(name && { name }),
+  };
+}
+
+/** The address invitations are accepted with, for the audit entry */
+function getAcceptTarget(
+  acceptUser: AcceptUser | { type: string; value: string } | null
+): { type: string; value: string } | undefined {
+  if (!acceptUser) {
+    return undefined;
+  }
+  if ('type' in acceptUser) {
+    return { type: acceptUser.type, value: acceptUser.value };
+  }
+  if (acceptUser.email) {
+    return { type: 'email', value: acceptUser.email };
+  }
+  return acceptUser.phone ? { type: 'phone', value: acceptUser.phone } : undefined;
+}
+
+/**
+ * Rejects the accept request unless every invitation is addressed to the
+ * user, with one `details.invitations` entry per invitation that isn't
+ */
+async function assertAddressedToUser(
+  request: FastifyRequest,
+  config: VortexConfig,
+  fields: VortexLogFields,
+  invitationIds: string[],
+  identity: AcceptIdentity
+): Promise<void> {
+  const failures = await Promise.all(
+    invitationIds.map(async (invitationId) => {
+      try {
+        const invitation = await readVortexApi(
+          request,
+          config,
+          fields,
+          (vortex) => vortex.getInvitation(invitationId),
+          (cache, load) => cache.getInvitation(invitationId, load)
+        );
+        return (invitation.target ?? []).some((target) => isAddressedTo(identity, target))
+          ? null
+          : {
+              invitationId,
+              code: VortexErrorCodes.INVITATION_TARGET_MISMATCH,
+              message: 'The invitation is not addressed to the authenticated user',
+            };
+      } catch (error) {
+        const httpError = toVortexHttpError(error);
+        if (httpError.statusCode !== 404) {
+          throw error;
+        }
+        return { invitationId, code: httpError.code, message: httpError.message };
+      }
+    })
+  );
+
+  const invitations = failures.filter((failure) => failure !== null);
+  if (invitations.length > 0) {
+    throw new VortexHttpError(
+      403,
+      VortexErrorCodes.INVITATION_TARGET_MISMATCH,
+      'Some invitations cannot be accepted by the authenticated user',
+      { details: { invitations } }
+    );
+  }
+}
+
+function filterInvitation(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  config: VortexConfig,
+  user: AuthenticatedUser | null,
+  invitation: InvitationResult
+) {
+  return config.filterInvitation
+    ? config.filterInvitation(request, reply, user, invitation)
+    : invitation;
+}
+
+/**
+ * Builds a list route response: applies `filterInvitations`, then the list
+ * query (status, delivery type, sort, cursor), then `invitationProjection`
+ */
+async function createInvitationPage(
+  request: FastifyRequest,
+  config: VortexConfig,
+  user: AuthenticatedUser | null,
+  invitations: InvitationResultBase[],
+  query: InvitationListQuery
+) {
+  const filtered = config.filterInvitations
+    ? await config.filterInvitations(request, user, invitations)
+    : invitations;
+  const page = paginateInvitations(filtered, query);
+
+  const projection =
+    typeof config.invitationProjection === 'function'
+      ? await config.invitationProjection(request, user)
+      : config.invitationProjection;
+
+  return projection
+    ? {
+        ...page,
+        invitations: page.invitations.map((invitation) => projectFields(invitation, projection)),
+      }
+    : page;
+}
+
+/**
+ * Runs the access check for a handler, noting the decision in `fields` for the
+ * audit entry. Without a configured hook only authenticated users are allowed.
+ */
+async function checkAccess<T>(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  config: VortexConfig,
+  fields: VortexLogFields,
+  hookName: keyof VortexAccessControlHooks,
+  user: AuthenticatedUser | null,
+  getResource: () => T | Promise<T>
+): Promise<void> {
+  const hook = config[hookName] as AccessControlHook<T> | undefined;
+  if (!hook) {
+    fields.accessAllowed = Boolean(user);
+    if (!user) {
+      throw new VortexAccessDeniedError(UNCONFIGURED_ACCESS_MESSAGE);
+    }
+    return;
+  }
+
+  fields.accessHook = hookName;
+  const resource = await getResource();
+  fields.accessAllowed = await hook(request, reply, user, resource);
+  if (!fields.accessAllowed) {
+    throw new VortexAccessDeniedError();
+  }
+}
+
+/**
+ * Audits a successful handler, then sends its response
+ */
+async function replyWithData(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  config: VortexConfig,
+  fields: VortexLogFields,
+  data: unknown,
+  status = 200
+) {
+  reply.status(status);
+  await auditVortexRequest(request, reply, config, fields);
+  return createApiResponse(reply, data, status);
+}
+
+/**
+ * Sends the error response for a failed handler. Server-side failures are
+ * logged at `error`, rejected requests at `debug`; both are audited.
+ */
+async function replyWithError(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  error: unknown,
+  config: VortexConfig | null,
+  fields: VortexLogFields
+) {
+  const httpError = toVortexHttpError(error);
+  const logFields = { ...fields, statusCode: httpError.statusCode, code: httpError.code };
+  if (httpError.statusCode >= 500) {
+    logVortexEvent(request, config, 'error', { ...logFields, error }, 'Vortex request failed');
+  } else {
+    logVortexEvent(request, config, 'debug', logFields, 'Vortex request rejected');
+  }
+  await auditVortexRequest(request, reply, config, fields, httpError);
+  return sendVortexError(request, reply, httpError, config);
+}
+
+export async function handleGetInvitationsByTarget(
+  request: FastifyRequest<VortexInvitationsByTargetRoute>,
+  reply: FastifyReply
+) {
+  const fields: VortexLogFields = { operation: 'getInvitationsByTarget' };
+  let config: VortexConfig | null = null;
   try {
     if (request.method !== 'GET') {
-      return createErrorResponse(reply, 'Method not allowed', 405);
+      throw new VortexMethodNotAllowedError();
     }
 
+    const listQuery = parseInvitationListQuery(request);
+
     // Get configuration and authenticate user
-    const config = await getVortexConfig();
+    config = await getVortexConfig(request);
     const user = await authenticateRequest(request, reply);
-
-    // Check access control if hook is configured
-    if (config.canAccessInvitationsByTarget) {
-      const hasAccess = await config.canAccessInvitationsByTarget(request, reply, user);
-      if (!hasAccess) {
-        return createErrorResponse(reply, 'Access denied', 403);
-      }
-    } else if (!user) {
-      // If no access control hook is configured, require authentication
-      return createErrorResponse(
-        reply,
-        'Access denied. Configure access control hooks for invitation endpoints.',
-        403
-      );
-    }
+    fields.userId = user?.userId;
 
     const targetType = sanitizeInput(getQueryParam(request, 'targetType')) as
-      | 'email'
-      | 'username'
-      | 'phoneNumber';
+      'email' | 'username' | 'phoneNumber';
     const targetValue = sanitizeInput(getQueryParam(request, 'targetValue'));
+    if (targetType && targetValue) {
+      fields.target = { type: targetType, value: targetValue };
+    }
+
+    // Check access control if hook is configured
+    await checkAccess(
+      request,
+      reply,
+      config,
+      fields,
+      'canAccessInvitationsByTarget',
+      user,
+      () => {}
+    );
 
     if (!targetType || !targetValue) {
-      return createErrorResponse(
-        reply,
-        'targetType and targetValue query parameters are required',
-        400
-      );
+      throw new VortexValidationError('targetType and targetValue query parameters are required');
     }
 
     if (!['email', 'username', 'phoneNumber'].includes(targetType)) {
-      return createErrorResponse(reply, 'targetType must be email, username, or phoneNumber', 400);
+      throw new VortexValidationError('targetType must be email, username, or phoneNumber');
     }
 
-    const vortex = new Vortex(config.apiKey);
-    const invitations = await vortex.getInvitationsByTarget(targetType, targetValue);
-    return createApiResponse(reply, { invitations });
+    const invitations = await readVortexApi(
+      request,
+      config,
+      fields,
+      (vortex) => vortex.getInvitationsByTarget(targetType, targetValue),
+      (cache, load) => cache.getInvitationsByTarget(targetType, targetValue, load)
+    );
+    return replyWithData(
+      request,
+      reply,
+      config,
+      fields,
+      await createInvitationPage(request, config, user, invitations, listQuery)
+    );
   } catch (error) {
-    console.error('Error in handleGetInvitationsByTarget:', error);
-    return createErrorResponse(reply, 'An error occurred while processing your request', 500);
+    return replyWithError(request, reply, error, config, fields);
   }
 }
 
-export async function handleGetInvitation(request: FastifyRequest, reply: FastifyReply) {
+export async function handleGetInvitation(
+  request: FastifyRequest<VortexInvitationRoute>,
+  reply: FastifyReply
+) {
+  const fields: VortexLogFields = { operation: 'getInvitation' };
+  let config: VortexConfig | null = null;
   try {
     if (request.method !== 'GET') {
-      return createErrorResponse(reply, 'Method not allowed', 405);
+      throw new VortexMethodNotAllowedError();
     }
 
-    const invitationId = getRouteParam(request, 'invitationId');
+    const invitationId = request.params.invitationId ?? null;
     const sanitizedId = sanitizeInput(invitationId);
     if (!sanitizedId) {
-      return createErrorResponse(reply, 'Invalid invitation ID', 400);
+      throw new VortexValidationError('Invalid invitation ID');
     }
+    fields.invitationId = sanitizedId;
 
     // Get configuration and authenticate user
-    const config = await getVortexConfig();
+    config = await getVortexConfig(request);
     const user = await authenticateRequest(request, reply);
+    fields.userId = user?.userId;
 
-    // Check access control if hook is configured
-    if (config.canAccessInvitation) {
-      const hasAccess = await config.canAccessInvitation(request, reply, user, {
-        invitationId: sanitizedId,
-      });
-      if (!hasAccess) {
-        return createErrorResponse(reply, 'Access denied', 403);
-      }
-    } else if (!user) {
-      return createErrorResponse(
-        reply,
-        'Access denied. Configure access control hooks for invitation endpoints.',
-        403
-      );
-    }
+    // Fetched only for a configured hook, so denied callers cannot probe which IDs exist
+    let resource: InvitationResource | undefined;
+    await checkAccess(request, reply, config, fields, 'canAccessInvitation', user, async () => {
+      resource = await getInvitationResource(request, config!, fields, sanitizedId);
+      return resource;
+    });
 
-    const vortex = new Vortex(config.apiKey);
-    const invitation = await vortex.getInvitation(sanitizedId);
-    return createApiResponse(reply, invitation);
+    const invitation =
+      resource?.invitation ??
+      (await readVortexApi(
+        request,
+        config,
+        fields,
+        (vortex) => vortex.getInvitation(sanitizedId),
+        (cache, load) => cache.getInvitation(sanitizedId, load)
+      ));
+    return replyWithData(
+      request,
+      reply,
+      config,
+      fields,
+      await filterInvitation(request, reply, config, user, invitation)
+    );
   } catch (error) {
-    console.error('Error in handleGetInvitation:', error);
-    return createErrorResponse(reply, 'An error occurred while processing your request', 500);
+    return replyWithError(request, reply, error, config, fields);
   }
 }
 
-export async function handleRevokeInvitation(request: FastifyRequest, reply: FastifyReply) {
+export async function handleRevokeInvitation(
+  request: FastifyRequest<VortexInvitationRoute>,
+  reply: FastifyReply
+) {
+  const fields: VortexLogFields = { operation: 'revokeInvitation' };
+  let config: VortexConfig | null = null;
   try {
     if (request.method !== 'DELETE') {
-      return createErrorResponse(reply, 'Method not allowed', 405);
+      throw new VortexMethodNotAllowedError();
     }
 
-    const invitationId = getRouteParam(request, 'invitationId');
+    const invitationId = request.params.invitationId ?? null;
     const sanitizedId = sanitizeInput(invitationId);
     if (!sanitizedId) {
-      return createErrorResponse(reply, 'Invalid invitation ID', 400);
+      throw new VortexValidationError('Invalid invitation ID');
     }
+    fields.invitationId = sanitizedId;
 
-    const config = await getVortexConfig();
+    config = await getVortexConfig(request);
     const user = await authenticateRequest(request, reply);
+    fields.userId = user?.userId;
 
-    if (config.canDeleteInvitation) {
-      const hasAccess = await config.canDeleteInvitation(request, reply, user, {
-        invitationId: sanitizedId,
-      });
-      if (!hasAccess) {
-        return createErrorResponse(reply, 'Access denied', 403);
-      }
-    } else if (!user) {
-      return createErrorResponse(
-        reply,
-        'Access denied. Configure access control hooks for invitation endpoints.',
-        403
-      );
-    }
+    await checkAccess(request, reply, config, fields, 'canDeleteInvitation', user, () =>
+      getInvitationResource(request, config!, fields, sanitizedId)
+    );
 
-    const vortex = new Vortex(config.apiKey);
-    await vortex.revokeInvitation(sanitizedId);
-    return createApiResponse(reply, { success: true });
+    const context: VortexOperationContext = { request, reply, user };
+    const input = await runBeforeHook(
+      config.beforeRevokeInvitation,
+      { invitationId: sanitizedId },
+      context
+    );
+    await callVortexApi(
+      request,
+      config,
+      fields,
+      (vortex) => vortex.revokeInvitation(input.invitationId),
+      { idempotent: true }
+    );
+    await config.cache?.invalidateInvitations([input.invitationId]);
+    return replyWithData(
+      request,
+      reply,
+      config,
+      fields,
+      await runAfterHook(config.afterRevokeInvitation, { success: true }, input, context)
+    );
   } catch (error) {
-    console.error('Error in handleRevokeInvitation:', error);
-    return createErrorResponse(reply, 'An error occurred while processing your request', 500);
+    return replyWithError(request, reply, error, config, fields);
   }
 }
 
-export async function handleAcceptInvitations(request: FastifyRequest, reply: FastifyReply) {
+export async function handleAcceptInvitations(
+  request: FastifyRequest<VortexAcceptInvitationsRoute>,
+  reply: FastifyReply
+) {
+  const fields: VortexLogFields = { operation: 'acceptInvitations' };
+  let config: VortexConfig | null = null;
   try {
     if (request.method !== 'POST') {
-      return createErrorResponse(reply, 'Method not allowed', 405);
+      throw new VortexMethodNotAllowedError();
     }
 
-    const body = (await parseRequestBody(request)) as Record<string, unknown>;
+    const body = (await parseRequestBody(request)) as Partial<AcceptInvitationsBody>;
 
     const { invitationIds, target, user } = body;
 
     if (!Array.isArray(invitationIds) || invitationIds.length === 0) {
-      return createErrorResponse(reply, 'invitationIds must be a non-empty array', 400);
+      throw new VortexValidationError('invitationIds must be a non-empty array');
+    }
+    if (invitationIds.length > 100) {
+      throw new VortexValidationError('invitationIds must not contain more than 100 IDs');
     }
 
     // Sanitize invitation IDs
@@ -162,40 +567,34 @@ export async function handleAcceptInvitations(request: FastifyRequest, reply: Fa
       .map((id: string) => sanitizeInput(id))
       .filter((id): id is string => Boolean(id));
     if (sanitizedIds.length !== invitationIds.length) {
-      return createErrorResponse(reply, 'Invalid invitation IDs provided', 400);
+      throw new VortexValidationError('Invalid invitation IDs provided');
     }
+    fields.invitationIds = sanitizedIds;
 
     // Support both new format (user) and legacy format (target)
-    if (!user && !target) {
-      return createErrorResponse(reply, 'Either user or target must be provided', 400);
-    }
-
-    let acceptData: any;
+    let acceptData: any = null;
 
     if (user) {
       // New format: user object with email/phone
-      const userObj = user as { email?: string; phone?: string; name?: string };
-      if (!userObj.email && !userObj.phone) {
-        return createErrorResponse(reply, 'user must have either email or phone', 400);
+      if (!user.email && !user.phone) {
+        throw new VortexValidationError('user must have either email or phone');
       }
       acceptData = {
-        email: userObj.email ? sanitizeInput(userObj.email) : undefined,
-        phone: userObj.phone ? sanitizeInput(userObj.phone) : undefined,
-        name: userObj.name ? sanitizeInput(userObj.name) : undefined,
+        email: user.email ? sanitizeInput(user.email) : undefined,
+        phone: user.phone ? sanitizeInput(user.phone) : undefined,
+        name: user.name ? sanitizeInput(user.name) : undefined,
       };
-    } else {
+    } else if (target) {
       // Legacy format: target object
-      const targetObj = target as { type?: string; value?: string };
+      const targetObj = target as Partial<NonNullable<AcceptInvitationsBody['target']>>;
 
       if (!targetObj.type || !targetObj.value) {
-        return createErrorResponse(reply, 'target must have type and value properties', 400);
+        throw new VortexValidationError('target must have type and value properties');
       }
 
       if (!['email', 'username', 'phoneNumber', 'phone'].includes(targetObj.type)) {
-        return createErrorResponse(
-          reply,
-          'target.type must be email, username, phoneNumber, or phone',
-          400
+        throw new VortexValidationError(
+          'target.type must be email, username, phoneNumber, or phone'
         );
       }
 
@@ -205,238 +604,447 @@ export async function handleAcceptInvitations(request: FastifyRequest, reply: Fa
       };
     }
 
-    const config = await getVortexConfig();
+    fields.target = getAcceptTarget(acceptData);
+
+    config = await getVortexConfig(request);
     const authenticatedUser = await authenticateRequest(request, reply);
+    fields.userId = authenticatedUser?.userId;
 
-    if (config.canAcceptInvitations) {
-      const resource = {
-        invitationIds: sanitizedIds,
-        target: target as { type: string; value: string } | undefined,
-        user: user as { email?: string; phone?: string; name?: string } | undefined,
-      };
-      const hasAccess = await config.canAcceptInvitations(
-        request,
-        reply,
-        authenticatedUser,
-        resource
-      );
-      if (!hasAccess) {
-        return createErrorResponse(reply, 'Access denied', 403);
+    // By default the accepting identity comes from the authenticated user
+    let identity: AcceptIdentity | null = null;
+    if (config.acceptIdentity === 'body') {
+      if (!acceptData) {
+        throw new VortexValidationError('Either user or target must be provided');
+      }
+    } else {
+      if (!authenticatedUser) {
+        throw new VortexUnauthorizedError('Accepting invitations requires an authenticated user');
       }
-    } else if (!authenticatedUser) {
-      return createErrorResponse(
-        reply,
-        'Access denied. Configure access control hooks for invitation endpoints.',
-        403
+      identity = getAcceptIdentity(authenticatedUser);
+      acceptData = getAuthenticatedAcceptUser(authenticatedUser, identity, acceptData);
+      fields.target = getAcceptTarget(acceptData);
+    }
+
+    await checkAccess(
+      request,
+      reply,
+      config,
+      fields,
+      'canAcceptInvitations',
+      authenticatedUser,
+      () =>
+        identity
+          ? { invitationIds: sanitizedIds, user: acceptData }
+          : { invitationIds: sanitizedIds, target, user }
+    );
+    if (identity) {
+      await assertAddressedToUser(request, config, fields, sanitizedIds, identity);
+    }
+
+    const context: VortexOperationContext = { request, reply, user: authenticatedUser };
+    const input = await runBeforeHook(
+      config.beforeAcceptInvitations,
+      { invitationIds: sanitizedIds, acceptUser: acceptData },
+      context
+    );
+    const result = await callVortexApi(request, config, fields, (vortex) =>
+      // Legacy `{ type, value }` targets are handled by the SDK's deprecated overload
+      vortex.acceptInvitations(input.invitationIds, input.acceptUser as AcceptUser)
+    );
+    await config.cache?.invalidateInvitations(input.invitationIds);
+    return replyWithData(
+      request,
+      reply,
+      config,
+      fields,
+      await runAfterHook(config.afterAcceptInvitations, result, input, context)
+    );
+  } catch (error) {
+    return replyWithError(request, reply, error, config, fields);
+  }
+}
+
+export async function handleCreateInvitation(
+  request: FastifyRequest<VortexCreateInvitationRoute>,
+  reply: FastifyReply
+) {
+  const fields: VortexLogFields = { operation: 'createInvitation' };
+  let config: VortexConfig | null = null;
+  try {
+    if (request.method !== 'POST') {
+      throw new VortexMethodNotAllowedError();
+    }
+
+    const body = (await parseRequestBody(request)) as Partial<CreateInvitationBody>;
+
+    const widgetConfigurationId = sanitizeInput(body.widgetConfigurationId ?? null);
+    if (!widgetConfigurationId) {
+      throw new VortexValidationError('widgetConfigurationId is required and must be a string');
+    }
+
+    if (!Array.isArray(body.targets) || body.targets.length === 0) {
+      throw new VortexValidationError('targets must be a non-empty array');
+    }
+
+    const targets: CreateInvitationResource['targets'] = [];
+    for (const target of body.targets) {
+      // The Vortex API creates email, phone and internal invitations only
+      if (!target || !['email', 'phone', 'internal'].includes(target.type)) {
+        throw new VortexValidationError('target.type must be email, phone, or internal');
+      }
+      const value = sanitizeInput(target.value ?? null);
+      if (!value) {
+        throw new VortexValidationError(`target.value is required for ${target.type} targets`);
+      }
+      targets.push({
+        type: target.type,
+        value,
+        ...(target.name && { name: sanitizeInput(target.name) ?? undefined }),
+        ...(target.avatarUrl && { avatarUrl: sanitizeInput(target.avatarUrl) ?? undefined }),
+      });
+    }
+
+    const scopeId = sanitizeInput(body.scopeId ?? null);
+    const scopeType = sanitizeInput(body.scopeType ?? null);
+    if (Boolean(scopeId) !== Boolean(scopeType)) {
+      throw new VortexValidationError('scopeId and scopeType must be provided together');
+    }
+
+    fields.targets = targets.map(({ type, value }) => ({ type, value }));
+
+    config = await getVortexConfig(request);
+    const user = await authenticateRequest(request, reply);
+    fields.userId = user?.userId;
+    if (!user) {
+      throw new VortexUnauthorizedError('Creating invitations requires an authenticated user');
+    }
+
+    const inviter: CreateInvitationResource['inviter'] = {
+      userId: user.userId,
+      ...(user.userEmail && { userEmail: user.userEmail }),
+      ...((user.name ?? user.userName) && { name: user.name ?? user.userName }),
+      ...((user.avatarUrl ?? user.userAvatarUrl) && {
+        avatarUrl: user.avatarUrl ?? user.userAvatarUrl,
+      }),
+    };
+    const resource: CreateInvitationResource = {
+      widgetConfigurationId,
+      targets,
+      deliveryTypes: [...new Set(targets.map((target) => target.type))],
+      ...(scopeId &&
+        scopeType && {
+          scope: {
+            scopeId,
+            scopeType,
+            ...(body.scopeName && { scopeName: sanitizeInput(body.scopeName) ?? undefined }),
+          },
+        }),
+      inviter,
+    };
+    fields.scopeType = resource.scope?.scopeType;
+    fields.scope = resource.scope?.scopeId;
+
+    await checkAccess(request, reply, config, fields, 'canCreateInvitation', user, () => resource);
+
+    // One invitation per target; a failed target does not undo the others
+    const results = await Promise.allSettled(
+      targets.map((target) =>
+        callVortexApi(request, config!, fields, (vortex) =>
+          vortex.createInvitation({
+            widgetConfigurationId,
+            target,
+            inviter,
+            ...(resource.scope && {
+              scopeId: resource.scope.scopeId,
+              scopeType: resource.scope.scopeType,
+              scopeName: resource.scope.scopeName,
+            }),
+            ...(body.source && { source: body.source }),
+            ...(body.subtype && { subtype: body.subtype }),
+            ...(body.templateVariables && { templateVariables: body.templateVariables }),
+            ...(body.metadata && { metadata: body.metadata }),
+            ...(body.unfurlConfig && { unfurlConfig: body.unfurlConfig }),
+          })
+        )
+      )
+    );
+
+    const invitations: CreateInvitationResponse[] = [];
+    const failed: CreateInvitationFailure[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        invitations.push(result.value);
+        return;
+      }
+      const { type, value } = targets[index];
+      const httpError = toVortexHttpError(result.reason);
+      logVortexEvent(
+        request,
+        config,
+        'warn',
+        { ...fields, statusCode: httpError.statusCode, error: result.reason },
+        'Vortex invitation target failed'
       );
+      failed.push({
+        target: { type, value },
+        statusCode: httpError.statusCode,
+        error: httpError.message,
+        code: httpError.code,
+      });
+    });
+    if (invitations.length === 0) {
+      // Nothing was created, so the request can be retried as a whole
+      throw (results[0] as PromiseRejectedResult).reason;
     }
 
-    const vortex = new Vortex(config.apiKey);
-    const result = await vortex.acceptInvitations(sanitizedIds, acceptData);
-    return createApiResponse(reply, result);
+    await config.cache?.invalidateInvitations();
+    if (failed.length > 0) {
+      return replyWithData(request, reply, config, fields, { invitations, failed }, 207);
+    }
+    return replyWithData(request, reply, config, fields, { invitations });
   } catch (error) {
-    console.error('Error in handleAcceptInvitations:', error);
-    return createErrorResponse(reply, 'An error occurred while processing your request', 500);
+    return replyWithError(request, reply, error, config, fields);
   }
 }
 
-export async function handleGetInvitationsByScope(request: FastifyRequest, reply: FastifyReply) {
+export async function handleGetInvitationsByScope(
+  request: FastifyRequest<VortexInvitationsByScopeRoute | VortexInvitationsByGroupRoute>,
+  reply: FastifyReply
+) {
+  const fields: VortexLogFields = { operation: 'getInvitationsByScope' };
+  let config: VortexConfig | null = null;
   try {
     if (request.method !== 'GET') {
-      return createErrorResponse(reply, 'Method not allowed', 405);
+      throw new VortexMethodNotAllowedError();
     }
 
-    const scopeType = getRouteParam(request, 'scopeType');
-    const scope = getRouteParam(request, 'scope');
+    const listQuery = parseInvitationListQuery(request);
+
+    const { scopeType, scope } = getScopeParams(request);
     const sanitizedGroupType = sanitizeInput(scopeType);
     const sanitizedGroupId = sanitizeInput(scope);
 
     if (!sanitizedGroupType || !sanitizedGroupId) {
-      return createErrorResponse(reply, 'Invalid group parameters', 400);
+      throw new VortexValidationError('Invalid group parameters');
     }
+    fields.scopeType = sanitizedGroupType;
+    fields.scope = sanitizedGroupId;
 
-    const config = await getVortexConfig();
+    config = await getVortexConfig(request);
     const user = await authenticateRequest(request, reply);
+    fields.userId = user?.userId;
 
-    if (config.canAccessInvitationsByScope) {
-      const hasAccess = await config.canAccessInvitationsByScope(request, reply, user, {
-        scopeType: sanitizedGroupType,
-        scope: sanitizedGroupId,
-      });
-      if (!hasAccess) {
-        return createErrorResponse(reply, 'Access denied', 403);
-      }
-    } else if (!user) {
-      return createErrorResponse(
-        reply,
-        'Access denied. Configure access control hooks for invitation endpoints.',
-        403
-      );
-    }
+    await checkAccess(request, reply, config, fields, 'canAccessInvitationsByScope', user, () => ({
+      scopeType: sanitizedGroupType,
+      scope: sanitizedGroupId,
+    }));
 
-    const vortex = new Vortex(config.apiKey);
-    const invitations = await vortex.getInvitationsByScope(sanitizedGroupType, sanitizedGroupId);
-    return createApiResponse(reply, { invitations });
+    const invitations = await readVortexApi(
+      request,
+      config,
+      fields,
+      (vortex) => vortex.getInvitationsByScope(sanitizedGroupType, sanitizedGroupId),
+      (cache, load) => cache.getInvitationsByScope(sanitizedGroupType, sanitizedGroupId, load)
+    );
+    return replyWithData(
+      request,
+      reply,
+      config,
+      fields,
+      await createInvitationPage(request, config, user, invitations, listQuery)
+    );
   } catch (error) {
-    console.error('Error in handleGetInvitationsByScope:', error);
-    return createErrorResponse(reply, 'An error occurred while processing your request', 500);
+    return replyWithError(request, reply, error, config, fields);
   }
 }
 
-export async function handleDeleteInvitationsByScope(request: FastifyRequest, reply: FastifyReply) {
+export async function handleDeleteInvitationsByScope(
+  request: FastifyRequest<VortexInvitationsByScopeRoute | VortexInvitationsByGroupRoute>,
+  reply: FastifyReply
+) {
+  const fields: VortexLogFields = { operation: 'deleteInvitationsByScope' };
+  let config: VortexConfig | null = null;
   try {
     if (request.method !== 'DELETE') {
-      return createErrorResponse(reply, 'Method not allowed', 405);
+      throw new VortexMethodNotAllowedError();
     }
 
-    const scopeType = getRouteParam(request, 'scopeType');
-    const scope = getRouteParam(request, 'scope');
+    const { scopeType, scope } = getScopeParams(request);
     const sanitizedGroupType = sanitizeInput(scopeType);
     const sanitizedGroupId = sanitizeInput(scope);
 
     if (!sanitizedGroupType || !sanitizedGroupId) {
-      return createErrorResponse(reply, 'Invalid group parameters', 400);
+      throw new VortexValidationError('Invalid group parameters');
     }
+    fields.scopeType = sanitizedGroupType;
+    fields.scope = sanitizedGroupId;
 
-    const config = await getVortexConfig();
+    config = await getVortexConfig(request);
     const user = await authenticateRequest(request, reply);
+    fields.userId = user?.userId;
 
-    if (config.canDeleteInvitationsByScope) {
-      const hasAccess = await config.canDeleteInvitationsByScope(request, reply, user, {
-        scopeType: sanitizedGroupType,
-        scope: sanitizedGroupId,
-      });
-      if (!hasAccess) {
-        return createErrorResponse(reply, 'Access denied', 403);
-      }
-    } else if (!user) {
-      return createErrorResponse(
-        reply,
-        'Access denied. Configure access control hooks for invitation endpoints.',
-        403
-      );
-    }
+    await checkAccess(request, reply, config, fields, 'canDeleteInvitationsByScope', user, () => ({
+      scopeType: sanitizedGroupType,
+      scope: sanitizedGroupId,
+    }));
 
-    const vortex = new Vortex(config.apiKey);
-    await vortex.deleteInvitationsByScope(sanitizedGroupType, sanitizedGroupId);
-    return createApiResponse(reply, { success: true });
+    const context: VortexOperationContext = { request, reply, user };
+    const input = await runBeforeHook(
+      config.beforeDeleteInvitationsByScope,
+      { scopeType: sanitizedGroupType, scope: sanitizedGroupId },
+      context
+    );
+    await callVortexApi(
+      request,
+      config,
+      fields,
+      (vortex) => vortex.deleteInvitationsByScope(input.scopeType, input.scope),
+      { idempotent: true }
+    );
+    await config.cache?.clear();
+    return replyWithData(
+      request,
+      reply,
+      config,
+      fields,
+      await runAfterHook(config.afterDeleteInvitationsByScope, { success: true }, input, context)
+    );
   } catch (error) {
-    console.error('Error in handleDeleteInvitationsByScope:', error);
-    return createErrorResponse(reply, 'An error occurred while processing your request', 500);
+    return replyWithError(request, reply, error, config, fields);
   }
 }
 
-export async function handleSyncInternalInvitation(request: FastifyRequest, reply: FastifyReply) {
+export async function handleSyncInternalInvitation(
+  request: FastifyRequest<VortexSyncInternalInvitationRoute>,
+  reply: FastifyReply
+) {
+  const fields: VortexLogFields = { operation: 'syncInternalInvitation' };
+  let config: VortexConfig | null = null;
   try {
     if (request.method !== 'POST') {
-      return createErrorResponse(reply, 'Method not allowed', 405);
+      throw new VortexMethodNotAllowedError();
     }
 
-    const body = (await parseRequestBody(request)) as Record<string, unknown>;
+    const body = (await parseRequestBody(request)) as Partial<SyncInternalInvitationBody>;
 
     const { creatorId, targetValue, action, componentId } = body;
 
     if (!creatorId || typeof creatorId !== 'string') {
-      return createErrorResponse(reply, 'creatorId is required and must be a string', 400);
+      throw new VortexValidationError('creatorId is required and must be a string');
     }
     if (!targetValue || typeof targetValue !== 'string') {
-      return createErrorResponse(reply, 'targetValue is required and must be a string', 400);
+      throw new VortexValidationError('targetValue is required and must be a string');
     }
-    if (!action || !['accepted', 'declined'].includes(action as string)) {
-      return createErrorResponse(
-        reply,
-        'action is required and must be "accepted" or "declined"',
-        400
-      );
+    if (!action || !['accepted', 'declined'].includes(action)) {
+      throw new VortexValidationError('action is required and must be "accepted" or "declined"');
     }
     if (!componentId || typeof componentId !== 'string') {
-      return createErrorResponse(reply, 'componentId is required and must be a string', 400);
+      throw new VortexValidationError('componentId is required and must be a string');
     }
 
-    const config = await getVortexConfig();
+    config = await getVortexConfig(request);
     const user = await authenticateRequest(request, reply);
+    fields.userId = user?.userId;
 
-    if (config.canSyncInternalInvitation) {
-      const hasAccess = await config.canSyncInternalInvitation(request, reply, user, {
-        creatorId: sanitizeInput(creatorId as string)!,
-        targetValue: sanitizeInput(targetValue as string)!,
-        action: action as string,
-        componentId: sanitizeInput(componentId as string)!,
-      });
-      if (!hasAccess) {
-        return createErrorResponse(reply, 'Access denied', 403);
-      }
-    } else if (!user) {
-      return createErrorResponse(
-        reply,
-        'Access denied. Configure access control hooks for invitation endpoints.',
-        403
-      );
-    }
+    await checkAccess(request, reply, config, fields, 'canSyncInternalInvitation', user, () => ({
+      creatorId: sanitizeInput(creatorId)!,
+      targetValue: sanitizeInput(targetValue)!,
+      action,
+      componentId: sanitizeInput(componentId)!,
+    }));
 
-    const vortex = new Vortex(config.apiKey);
-    const result = await vortex.syncInternalInvitation({
-      creatorId: sanitizeInput(creatorId as string)!,
-      targetValue: sanitizeInput(targetValue as string)!,
-      action: action as 'accepted' | 'declined',
-      componentId: sanitizeInput(componentId as string)!,
-    });
-    return createApiResponse(reply, result);
+    const context: VortexOperationContext = { request, reply, user };
+    const input = await runBeforeHook(
+      config.beforeSyncInternalInvitation,
+      {
+        creatorId: sanitizeInput(creatorId)!,
+        targetValue: sanitizeInput(targetValue)!,
+        action,
+        componentId: sanitizeInput(componentId)!,
+      },
+      context
+    );
+    const result = await callVortexApi(request, config, fields, (vortex) =>
+      vortex.syncInternalInvitation(input)
+    );
+    await config.cache?.invalidateInvitations(result.invitationIds ?? []);
+    return replyWithData(
+      request,
+      reply,
+      config,
+      fields,
+      await runAfterHook(config.afterSyncInternalInvitation, result, input, context)
+    );
   } catch (error) {
-    console.error('Error in handleSyncInternalInvitation:', error);
-    return createErrorResponse(reply, 'An error occurred while processing your request', 500);
+    return replyWithError(request, reply, error, config, fields);
   }
 }
 
-export async function handleReinvite(request: FastifyRequest, reply: FastifyReply) {
+export async function handleReinvite(
+  request: FastifyRequest<VortexInvitationRoute>,
+  reply: FastifyReply
+) {
+  const fields: VortexLogFields = { operation: 'reinvite' };
+  let config: VortexConfig | null = null;
   try {
     if (request.method !== 'POST') {
-      return createErrorResponse(reply, 'Method not allowed', 405);
+      throw new VortexMethodNotAllowedError();
     }
 
-    const invitationId = getRouteParam(request, 'invitationId');
+    const invitationId = request.params.invitationId ?? null;
     const sanitizedId = sanitizeInput(invitationId);
     if (!sanitizedId) {
-      return createErrorResponse(reply, 'Invalid invitation ID', 400);
+      throw new VortexValidationError('Invalid invitation ID');
     }
+    fields.invitationId = sanitizedId;
 
-    const config = await getVortexConfig();
+    config = await getVortexConfig(request);
     const user = await authenticateRequest(request, reply);
+    fields.userId = user?.userId;
 
-    if (config.canReinvite) {
-      const hasAccess = await config.canReinvite(request, reply, user, {
-        invitationId: sanitizedId,
-      });
-      if (!hasAccess) {
-        return createErrorResponse(reply, 'Access denied', 403);
-      }
-    } else if (!user) {
-      return createErrorResponse(
-        reply,
-        'Access denied. Configure access control hooks for invitation endpoints.',
-        403
-      );
-    }
+    await checkAccess(request, reply, config, fields, 'canReinvite', user, () =>
+      getInvitationResource(request, config!, fields, sanitizedId)
+    );
 
-    const vortex = new Vortex(config.apiKey);
-    const invitation = await vortex.reinvite(sanitizedId);
-    return createApiResponse(reply, invitation);
+    const context: VortexOperationContext = { request, reply, user };
+    const input = await runBeforeHook(
+      config.beforeReinvite,
+      { invitationId: sanitizedId },
+      context
+    );
+    const result = await callVortexApi(request, config, fields, (vortex) =>
+      vortex.reinvite(input.invitationId)
+    );
+    await config.cache?.invalidateInvitations([input.invitationId]);
+    const invitation = await runAfterHook(config.afterReinvite, result, input, context);
+    return replyWithData(
+      request,
+      reply,
+      config,
+      fields,
+      await filterInvitation(request, reply, config, user, invitation)
+    );
   } catch (error) {
-    console.error('Error in handleReinvite:', error);
-    return createErrorResponse(reply, 'An error occurred while processing your request', 500);
+    return replyWithError(request, reply, error, config, fields);
   }
 }
 
 /**
  * @deprecated Use handleGetInvitationsByScope instead
  */
-export async function handleGetInvitationsByGroup(request: FastifyRequest, reply: FastifyReply) {
+export async function handleGetInvitationsByGroup(
+  request: FastifyRequest<VortexInvitationsByGroupRoute>,
+  reply: FastifyReply
+) {
   return handleGetInvitationsByScope(request, reply);
 }
 
 /**
  * @deprecated Use handleDeleteInvitationsByScope instead
  */
-export async function handleDeleteInvitationsByGroup(request: FastifyRequest, reply: FastifyReply) {
+export async function handleDeleteInvitationsByGroup(
+  request: FastifyRequest<VortexInvitationsByGroupRoute>,
+  reply: FastifyReply
+) {
   return handleDeleteInvitationsByScope(request, reply);
 }
@@ -1,39 +1,45 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
-import { Vortex } from '@teamvortexsoftware/vortex-node-22-sdk';
-import { getVortexConfig } from '../config';
-import { createApiResponse, createErrorResponse } from '../utils';
+import { getVortexConfig, VortexConfig } from '../config';
+import { getVortexClient } from '../client';
+import {
+  VortexConfigurationError,
+  VortexMethodNotAllowedError,
+  VortexUnauthorizedError,
+  sendVortexError,
+  toVortexHttpError,
+} from '../errors';
+import { runAfterHook, runBeforeHook, VortexOperationContext } from '../lifecycle';
+import { logVortexEvent, VortexLogFields } from '../logging';
+import { createApiResponse } from '../utils';
 
 export async function handleJwtGeneration(request: FastifyRequest, reply: FastifyReply) {
+  const fields: VortexLogFields = { operation: 'generateJwt' };
+  let config: VortexConfig | null = null;
   try {
     if (request.method !== 'POST') {
-      return createErrorResponse(reply, 'Method not allowed', 405);
+      throw new VortexMethodNotAllowedError();
     }
 
-    const config = await getVortexConfig();
+    config = await getVortexConfig(request);
 
     if (!config.authenticateUser) {
-      return createErrorResponse(
-        reply,
-        'JWT generation requires authentication configuration. Please configure authenticateUser hook.',
-        500
+      throw new VortexConfigurationError(
+        'JWT generation requires authentication configuration. Please configure authenticateUser hook.'
       );
     }
 
     const authenticatedUser = await config.authenticateUser(request, reply);
 
     if (!authenticatedUser) {
-      return createErrorResponse(reply, 'Unauthorized', 401);
+      throw new VortexUnauthorizedError();
     }
+    fields.userId = authenticatedUser.userId;
 
-    const vortex = new Vortex(config.apiKey);
+    const vortex = getVortexClient(config);
 
     // Validate required fields
     if (!authenticatedUser.userId || !authenticatedUser.userEmail) {
-      return createErrorResponse(
-        reply,
-        'Invalid user format: must provide userId and userEmail',
-        500
-      );
+      throw new VortexConfigurationError('Invalid user format: must provide userId and userEmail');
     }
 
     // Generate JWT with new format
@@ -62,11 +68,25 @@ export async function handleJwtGeneration(request: FastifyRequest, reply: Fastif
       jwtParams.attributes = authenticatedUser.attributes;
     }
 
-    const jwt = vortex.generateJwt(jwtParams);
+    const context: VortexOperationContext = { request, reply, user: authenticatedUser };
+    const input = await runBeforeHook(config.beforeGenerateJwt, jwtParams, context);
+    const jwt = vortex.generateJwt(input);
 
-    return createApiResponse(reply, { jwt });
+    return createApiResponse(
+      reply,
+      await runAfterHook(config.afterGenerateJwt, { jwt }, input, context)
+    );
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'An error occurred';
-    return createErrorResponse(reply, message, 500);
+    const httpError = toVortexHttpError(error);
+    if (httpError.statusCode >= 500) {
+      logVortexEvent(
+        request,
+        config,
+        'error',
+        { ...fields, statusCode: httpError.statusCode, code: httpError.code, error },
+        'Vortex request failed'
+      );
+    }
+    return sendVortexError(request, reply, httpError, config);
   }
 }
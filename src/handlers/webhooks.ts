@@ -1,5 +1,52 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
-import { VortexWebhooks, WebhookHandlers } from '@teamvortexsoftware/vortex-node-22-sdk';
+import {
+  VortexEvent,
+  VortexWebhooks,
+  WebhookHandlers,
+  isWebhookEvent,
+} from '@teamvortexsoftware/vortex-node-22-sdk';
+import type { VortexCache } from '../cache';
+import type { VortexWebhookEvents } from '../webhook-events';
+import { MemoryWebhookQueue, VortexWebhookQueue } from '../webhook-queue';
+import {
+  VortexWebhookSecretMatch,
+  VortexWebhookSecrets,
+  createWebhookVerifier,
+} from '../webhook-secrets';
+import {
+  MemoryWebhookEventStore,
+  VortexWebhookReplayOptions,
+  isWithinTolerance,
+} from '../webhook-replay';
+
+export interface VortexWebhookHandlerOptions {
+  /** Cache to invalidate for each verified event, before `handlers` run */
+  cache?: VortexCache;
+  /**
+   * Rejects events whose `timestamp` is outside a tolerance window with a `400`,
+   * and acknowledges redeliveries of an already processed event `id` without
+   * running `handlers` again. `true` uses a 5 minute window and an in-memory store.
+   *
+   * An event whose handlers failed is forgotten so a redelivery runs them again,
+   * but only while its `timestamp` is within the window: later retries get the
+   * same `400` and the event is not processed. Raise `toleranceMs` to cover the
+   * retry schedule, or recover failed events from your own logs.
+   */
+  replayProtection?: boolean | VortexWebhookReplayOptions;
+  /**
+   * Acknowledges verified events with a `200` right away and runs `handlers`
+   * from this queue, so slow handlers don't cause delivery timeouts. `true` uses
+   * a `MemoryWebhookQueue` with its default retries and concurrency.
+   */
+  queue?: boolean | VortexWebhookQueue;
+  /**
+   * Called with the secret that verified each event, e.g. to confirm an old
+   * secret no longer receives traffic before retiring it
+   */
+  onSecretMatch?: (match: VortexWebhookSecretMatch, event: VortexEvent) => void;
+  /** Emitter receiving each webhook event after `handlers`, with the request context */
+  events?: VortexWebhookEvents;
+}
 
 /**
  * Create a Fastify handler for incoming Vortex webhook events.
@@ -7,9 +54,13 @@ import { VortexWebhooks, WebhookHandlers } from '@teamvortexsoftware/vortex-node
  * **Important:** Fastify parses JSON by default. To get the raw body for
  * signature verification, add a `rawBody` content-type parser or use
  * Fastify's `addContentTypeParser` to preserve the raw buffer.
+ * `vortexWebhookPlugin` does both in one `register` call.
  *
- * @param webhooks - A configured `VortexWebhooks` instance
+ * @param webhooks - A configured `VortexWebhooks` instance, or the signing
+ *   secrets: a list of active secrets (a signature may match any of them) or a
+ *   resolver keyed by the event's `accountId` / `environmentId`
  * @param handlers - Event handler configuration
+ * @param options - Optional `cache` to invalidate on invitation events, `replayProtection` and `queue`
  * @returns Fastify route handler
  *
  * @example
@@ -34,9 +85,17 @@ import { VortexWebhooks, WebhookHandlers } from '@teamvortexsoftware/vortex-node
  * ```
  */
 export function createVortexWebhookHandler(
-  webhooks: VortexWebhooks,
+  webhooks: VortexWebhooks | VortexWebhookSecrets,
   handlers: WebhookHandlers,
+  options: VortexWebhookHandlerOptions = {},
 ): (request: FastifyRequest, reply: FastifyReply) => Promise<void> {
+  const verifyWebhookEvent = createWebhookVerifier(webhooks);
+  const replay: VortexWebhookReplayOptions | null =
+    options.replayProtection === true ? {} : options.replayProtection || null;
+  const toleranceMs = replay?.toleranceMs ?? 5 * 60 * 1000;
+  const eventStore = replay && (replay.store ?? new MemoryWebhookEventStore());
+  const queue = options.queue === true ? new MemoryWebhookQueue() : options.queue || null;
+
   return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
     const signatureHeader = request.headers['x-vortex-signature'];
 
@@ -73,8 +132,40 @@ export function createVortexWebhookHandler(
     }
 
     try {
-      const event = webhooks.constructEvent(rawBody, signature);
-      await webhooks.handleEvent(event, handlers);
+      const { event, webhooks: verifiedWebhooks, match } =
+        await verifyWebhookEvent(rawBody, signature);
+      options.onSecretMatch?.(match, event);
+
+      if (eventStore) {
+        if (!isWithinTolerance(event.timestamp, toleranceMs)) {
+          reply.status(400).send({ error: 'Event timestamp outside the tolerance window' });
+          return;
+        }
+        // IDs are remembered for as long as a redelivery could pass the timestamp check
+        if (!(await eventStore.markSeen(event.id, 2 * toleranceMs))) {
+          reply.status(200).send({ received: true, duplicate: true });
+          return;
+        }
+      }
+
+      try {
+        await options.cache?.handleWebhookEvent(event);
+        const processEvent = async (verified: VortexEvent) => {
+          await verifiedWebhooks.handleEvent(verified, handlers);
+          if (options.events && isWebhookEvent(verified)) {
+            await options.events.emit(verified, { request, log: request.log });
+          }
+        };
+        if (queue) {
+          await queue.enqueue(event, processEvent);
+        } else {
+          await processEvent(event);
+        }
+      } catch (err) {
+        // Let Vortex's retry run the handlers again
+        await eventStore?.forget(event.id);
+        throw err;
+      }
       reply.status(200).send({ received: true });
     } catch (err) {
       const isSignatureError = (err as Error).name === 'VortexWebhookSignatureError';
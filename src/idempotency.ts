@@ -0,0 +1,241 @@
+import { createHash } from 'node:crypto';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { authenticateRequest, getVortexConfig } from './config';
+import {
+  VortexErrorCodes,
+  VortexHttpError,
+  VortexValidationError,
+  sendVortexError,
+} from './errors';
+import { logVortexEvent } from './logging';
+
+export type VortexIdempotencyRecord =
+  | { state: 'in-flight'; fingerprint: string }
+  | {
+      state: 'completed';
+      fingerprint: string;
+      statusCode: number;
+      contentType?: string;
+      /** Serialized response body */
+      body: string;
+    };
+
+/**
+ * Storage for idempotency records. Implement it on Redis or a similar shared
+ * backend (`reserve` maps to `SET key value NX PX ttl`) so retries reaching
+ * another instance are recognized too.
+ */
+export interface VortexIdempotencyStore {
+  /**
+   * Stores `record` unless `key` already exists. Returns the existing record,
+   * or `undefined` when the key was reserved by this call.
+   */
+  reserve(
+    key: string,
+    record: VortexIdempotencyRecord,
+    ttlMs: number
+  ): VortexIdempotencyRecord | undefined | Promise<VortexIdempotencyRecord | undefined>;
+  set(key: string, record: VortexIdempotencyRecord, ttlMs: number): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+}
+
+/**
+ * Idempotency records kept in process memory, the default store
+ */
+export class MemoryIdempotencyStore implements VortexIdempotencyStore {
+  private readonly records = new Map<
+    string,
+    { record: VortexIdempotencyRecord; expiresAt: number }
+  >();
+  private lastPrunedAt = 0;
+
+  reserve(
+    key: string,
+    record: VortexIdempotencyRecord,
+    ttlMs: number
+  ): VortexIdempotencyRecord | undefined {
+    const existing = this.records.get(key);
+    if (existing && existing.expiresAt > Date.now()) {
+      return existing.record;
+    }
+    this.set(key, record, ttlMs);
+    return undefined;
+  }
+
+  set(key: string, record: VortexIdempotencyRecord, ttlMs: number): void {
+    const now = Date.now();
+    // Sweep expired records at most once a minute
+    if (now - this.lastPrunedAt >= 60_000) {
+      this.lastPrunedAt = now;
+      for (const [storedKey, entry] of this.records) {
+        if (entry.expiresAt <= now) {
+          this.records.delete(storedKey);
+        }
+      }
+    }
+    this.records.set(key, { record, expiresAt: now + ttlMs });
+  }
+
+  delete(key: string): void {
+    this.records.delete(key);
+  }
+}
+
+export interface VortexIdempotencyOptions {
+  /** How long a response is replayed for the same key (default 24 hours) */
+  ttlMs?: number;
+  /** Defaults to a `MemoryIdempotencyStore` */
+  store?: VortexIdempotencyStore;
+  /** Request header carrying the key (default `Idempotency-Key`) */
+  header?: string;
+}
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Creates the hooks behind the `idempotency` route option, for POST and DELETE
+ * routes. A request with an `Idempotency-Key` header is processed once per key,
+ * user and route:
+ * - repeats get the stored response, marked with `Idempotent-Replayed: true`
+ * - a repeat while the first request is still running gets a `409`
+ * - reusing a key with a different body gets a `422`
+ * Anonymous requests are keyed by client IP. Responses with a `5xx`, `401` or
+ * `403` status aren't stored, so the request can be retried, e.g. once signed in.
+ */
+export function createVortexIdempotency(options: VortexIdempotencyOptions = {}) {
+  const store = options.store ?? new MemoryIdempotencyStore();
+  const ttlMs = options.ttlMs ?? 24 * 60 * 60 * 1000;
+  const header = (options.header ?? 'idempotency-key').toLowerCase();
+  const reservedKeys = new WeakMap<FastifyRequest, { key: string; fingerprint: string }>();
+
+  async function preHandler(request: FastifyRequest, reply: FastifyReply) {
+    const idempotencyKey = request.headers[header];
+    if (idempotencyKey === undefined) {
+      return;
+    }
+
+    const config = await getVortexConfig(request).catch(() => null);
+    if (
+      typeof idempotencyKey !== 'string' ||
+      !idempotencyKey ||
+      idempotencyKey.length > MAX_KEY_LENGTH
+    ) {
+      return sendVortexError(
+        request,
+        reply,
+        new VortexValidationError(
+          `${header} must be a single value of 1 to ${MAX_KEY_LENGTH} characters`
+        ),
+        config
+      );
+    }
+
+    const user = await authenticateRequest(request, reply).catch(() => null);
+    const key = [
+      'vortex-idempotency',
+      request.method,
+      request.routeOptions.url,
+      user ? `user:${user.userId}` : `ip:${request.ip}`,
+      idempotencyKey,
+    ].join(':');
+    const fingerprint = createHash('sha256')
+      .update(JSON.stringify(request.body ?? null))
+      .digest('hex');
+
+    let existing: VortexIdempotencyRecord | undefined;
+    try {
+      existing = await store.reserve(key, { state: 'in-flight', fingerprint }, ttlMs);
+    } catch (error) {
+      logVortexEvent(
+        request,
+        config,
+        'warn',
+        { operation: 'idempotency', error },
+        'Vortex idempotency store failed; processing request without a key'
+      );
+      return;
+    }
+
+    if (!existing) {
+      reservedKeys.set(request, { key, fingerprint });
+      return;
+    }
+    if (existing.fingerprint !== fingerprint) {
+      return sendVortexError(
+        request,
+        reply,
+        new VortexHttpError(
+          422,
+          VortexErrorCodes.IDEMPOTENCY_KEY_REUSED,
+          'This idempotency key was used with a different request'
+        ),
+        config
+      );
+    }
+    if (existing.state === 'in-flight') {
+      return sendVortexError(
+        request,
+        reply,
+        new VortexHttpError(
+          409,
+          VortexErrorCodes.IDEMPOTENCY_KEY_IN_USE,
+          'A request with this idempotency key is still being processed'
+        ),
+        config
+      );
+    }
+
+    if (existing.contentType) {
+      reply.type(existing.contentType);
+    }
+    // A string body with a JSON content type is sent as-is, without re-serializing
+    return reply
+      .status(existing.statusCode)
+      .header('Idempotent-Replayed', 'true')
+      .send(existing.body);
+  }
+
+  async function onSend(request: FastifyRequest, reply: FastifyReply, payload: unknown) {
+    const reserved = reservedKeys.get(request);
+    if (!reserved) {
+      return payload;
+    }
+    reservedKeys.delete(request);
+
+    try {
+      if (
+        reply.statusCode >= 500 ||
+        reply.statusCode === 401 ||
+        reply.statusCode === 403 ||
+        (typeof payload !== 'string' && !Buffer.isBuffer(payload))
+      ) {
+        await store.delete(reserved.key);
+      } else {
+        const contentType = reply.getHeader('content-type');
+        await store.set(
+          reserved.key,
+          {
+            state: 'completed',
+            fingerprint: reserved.fingerprint,
+            statusCode: reply.statusCode,
+            ...(typeof contentType === 'string' && { contentType }),
+            body: payload.toString(),
+          },
+          ttlMs
+        );
+      }
+    } catch (error) {
+      const config = await getVortexConfig(request).catch(() => null);
+      logVortexEvent(
+        request,
+        config,
+        'warn',
+        { operation: 'idempotency', error },
+        'Vortex idempotency store failed to record the response'
+      );
+    }
+    return payload;
+  }
+
+  return { preHandler, onSend };
+}
@@ -3,8 +3,10 @@ export {
   configureVortexAsync,
   configureVortexLazy,
   getVortexConfig,
+  useVortexConfig,
   authenticateRequest,
   createAllowAllAccessControl,
+  createDenyAllAccessControl,
 } from './config';
 export type {
   VortexConfig,
@@ -12,20 +14,95 @@ export type {
   AccessControlHook,
   InvitationResource,
   InvitationTargetResource,
+  CreateInvitationResource,
   SyncInternalInvitationResource,
   ScopeResource,
   GroupResource,
   InvitationAccessHook,
   InvitationTargetAccessHook,
+  CreateInvitationAccessHook,
   SyncInternalInvitationAccessHook,
   ScopeAccessHook,
   GroupAccessHook,
   BasicAccessHook,
+  InvitationFilter,
+  InvitationListFilter,
+  InvitationProjection,
+  VortexAccessControlHooks,
 } from './config';
 
+export {
+  createScopedAccessControl,
+  composeAccessControl,
+  DEFAULT_ACCESS_RULES,
+} from './access-control';
+export type {
+  VortexAccessAction,
+  VortexAccessContext,
+  VortexAccessRule,
+  ScopedAccessControlOptions,
+} from './access-control';
+
+export {
+  VortexErrorCodes,
+  VortexHttpError,
+  VortexValidationError,
+  VortexUnauthorizedError,
+  VortexAccessDeniedError,
+  VortexNotFoundError,
+  VortexMethodNotAllowedError,
+  VortexConflictError,
+  VortexRateLimitError,
+  VortexUnprocessableError,
+  VortexUpstreamError,
+  VortexUpstreamTimeoutError,
+  VortexCircuitOpenError,
+  VortexConfigurationError,
+  VortexInternalError,
+  toVortexHttpError,
+  formatVortexError,
+  createProblemDetailsFormatter,
+  sendVortexError,
+} from './errors';
+export type { VortexErrorCode, VortexHttpErrorOptions, VortexErrorFormatter } from './errors';
+
+export { createVortexRateLimiter, MemoryRateLimitStore, DEFAULT_RATE_LIMITS } from './rate-limit';
+export type {
+  VortexRateLimitOptions,
+  VortexRateLimitRule,
+  VortexRateLimitStore,
+} from './rate-limit';
+
+export { createVortexIdempotency, MemoryIdempotencyStore } from './idempotency';
+export type {
+  VortexIdempotencyOptions,
+  VortexIdempotencyRecord,
+  VortexIdempotencyStore,
+} from './idempotency';
+
+export { VortexCache, MemoryCacheStore } from './cache';
+export type { VortexCacheStore, VortexCacheOptions, MemoryCacheStoreOptions } from './cache';
+
+export {
+  getVortexClient,
+  createDefaultVortexClient,
+  callVortexApi,
+  getVortexCircuitBreaker,
+} from './client';
+export type { VortexClient, VortexClientFactory, CallVortexApiOptions } from './client';
+
+export { VortexCircuitBreaker, isUpstreamFailure } from './resilience';
+export type {
+  VortexRetryOptions,
+  VortexCircuitBreakerOptions,
+  VortexCircuitBreakerStats,
+  VortexCircuitState,
+} from './resilience';
+
 export {
   createVortexJwtRoute,
   createVortexInvitationsRoute,
+  createVortexCreateInvitationRoute,
   createVortexInvitationRoute,
   createVortexInvitationsAcceptRoute,
   createVortexInvitationsByGroupRoute,
@@ -36,7 +113,91 @@ export {
   VORTEX_ROUTES,
   createVortexApiPath,
 } from './routes';
-export type { VortexPluginOptions } from './routes';
+export type { VortexPluginOptions, VortexRouteOptions } from './routes';
+
+export {
+  INVITATION_LIST_STATUSES,
+  INVITATION_LIST_SORTS,
+  INVITATION_DELIVERY_TYPES,
+  MAX_INVITATION_PAGE_SIZE,
+  getInvitationListStatus,
+  parseInvitationListQuery,
+  paginateInvitations,
+} from './pagination';
+export type {
+  InvitationListQuery,
+  InvitationListStatus,
+  InvitationListSort,
+  InvitationPage,
+} from './pagination';
+
+export { redactString, redactLogValue, getVortexLogger, logVortexEvent } from './logging';
+export type { VortexLogFields } from './logging';
+
+export type {
+  VortexOperation,
+  VortexOperations,
+  VortexOperationContext,
+  VortexBeforeHook,
+  VortexAfterHook,
+  AcceptInvitationsInput,
+} from './lifecycle';
+
+export { logVortexAudit } from './audit';
+export type {
+  VortexAuditEntry,
+  VortexAuditDecision,
+  VortexAuditResource,
+  VortexAuditHook,
+} from './audit';
+
+export {
+  VORTEX_ROUTE_SCHEMAS,
+  errorResponseSchema,
+  successResponseSchema,
+  jwtResponseSchema,
+  invitationSchema,
+  invitationTargetSchema,
+  invitationScopeSchema,
+  invitationsResponseSchema,
+  syncInternalInvitationResponseSchema,
+  invitationParamsSchema,
+  scopeParamsSchema,
+  groupParamsSchema,
+  invitationsByTargetQuerystringSchema,
+  invitationListQuerystringSchema,
+  acceptInvitationsBodySchema,
+  createInvitationBodySchema,
+  createInvitationResultSchema,
+  createInvitationResponseSchema,
+  createInvitationPartialResponseSchema,
+  syncInternalInvitationBodySchema,
+} from './schemas';
+export type {
+  InvitationParams,
+  ScopeParams,
+  GroupParams,
+  InvitationsByTargetQuerystring,
+  InvitationListQuerystring,
+  AcceptInvitationsBody,
+  CreateInvitationBody,
+  CreateInvitationTargetBody,
+  CreateInvitationDeliveryType,
+  CreateInvitationFailure,
+  SyncInternalInvitationBody,
+  VortexRouteSchema,
+  VortexJwtRoute,
+  VortexInvitationsByTargetRoute,
+  VortexCreateInvitationRoute,
+  VortexInvitationRoute,
+  VortexAcceptInvitationsRoute,
+  VortexInvitationsByScopeRoute,
+  VortexInvitationsByGroupRoute,
+  VortexSyncInternalInvitationRoute,
+} from './schemas';
+
+export { getVortexOpenApiSpec } from './openapi';
+export type { VortexOpenApiOptions, VortexOpenApiDocument } from './openapi';
 
 export { handleJwtGeneration } from './handlers/jwt';
 
@@ -45,6 +206,7 @@ export {
   handleGetInvitation,
   handleRevokeInvitation,
   handleAcceptInvitations,
+  handleCreateInvitation,
   handleGetInvitationsByGroup,
   handleGetInvitationsByScope,
   handleDeleteInvitationsByGroup,
@@ -54,6 +216,28 @@ export {
 } from './handlers/invitations';
 
 export { createVortexWebhookHandler } from './handlers/webhooks';
+export type { VortexWebhookHandlerOptions } from './handlers/webhooks';
+export { vortexWebhookPlugin } from './webhook-plugin';
+export type { VortexWebhookPluginOptions } from './webhook-plugin';
+export { VortexWebhookEvents } from './webhook-events';
+export type {
+  VortexWebhookContext,
+  VortexWebhookEventPattern,
+  VortexWebhookEventFor,
+  VortexWebhookListener,
+} from './webhook-events';
+export { MemoryWebhookEventStore } from './webhook-replay';
+export type { VortexWebhookEventStore, VortexWebhookReplayOptions } from './webhook-replay';
+export { MemoryWebhookQueue } from './webhook-queue';
+export type { VortexWebhookQueue, MemoryWebhookQueueOptions } from './webhook-queue';
+export type {
+  VortexWebhookSecret,
+  VortexWebhookSecretList,
+  VortexWebhookSecretContext,
+  VortexWebhookSecretResolver,
+  VortexWebhookSecrets,
+  VortexWebhookSecretMatch,
+} from './webhook-secrets';
 
 export {
   createApiResponse,
@@ -63,6 +247,8 @@ export {
   getRouteParam,
   validateRequiredFields,
   sanitizeInput,
+  projectFields,
 } from './utils';
+export type { FieldProjection } from './utils';
 
 export * from '@teamvortexsoftware/vortex-node-22-sdk';
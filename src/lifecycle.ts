@@ -0,0 +1,87 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type {
+  AcceptUser,
+  InvitationResult,
+  SyncInternalInvitationRequest,
+  SyncInternalInvitationResponse,
+} from '@teamvortexsoftware/vortex-node-22-sdk';
+import type { VortexClient } from './client';
+import type { AuthenticatedUser } from './config';
+
+/** Passed to every lifecycle hook */
+export interface VortexOperationContext {
+  request: FastifyRequest;
+  reply: FastifyReply;
+  /** The authenticated user, `null` for anonymous requests */
+  user: AuthenticatedUser | null;
+}
+
+export interface AcceptInvitationsInput {
+  invitationIds: string[];
+  /** The accepting user (`{ email, phone, name }`), or a legacy `{ type, value }` target */
+  acceptUser: AcceptUser | { type: string; value: string };
+}
+
+/**
+ * Input and result of each operation with `before<Operation>` and
+ * `after<Operation>` hooks
+ */
+export interface VortexOperations {
+  acceptInvitations: { input: AcceptInvitationsInput; result: InvitationResult };
+  revokeInvitation: { input: { invitationId: string }; result: { success: boolean } };
+  reinvite: { input: { invitationId: string }; result: InvitationResult };
+  deleteInvitationsByScope: {
+    input: { scopeType: string; scope: string };
+    result: { success: boolean };
+  };
+  syncInternalInvitation: {
+    input: SyncInternalInvitationRequest;
+    result: SyncInternalInvitationResponse;
+  };
+  generateJwt: { input: Parameters<VortexClient['generateJwt']>[0]; result: { jwt: string } };
+}
+
+export type VortexOperation = keyof VortexOperations;
+
+/**
+ * Runs after access control, before the Vortex API call. Mutate `input` or
+ * return a replacement; throw a `VortexHttpError` to veto the operation with
+ * that response.
+ */
+export type VortexBeforeHook<Op extends VortexOperation> = (
+  input: VortexOperations[Op]['input'],
+  context: VortexOperationContext
+) => VortexOperations[Op]['input'] | void | Promise<VortexOperations[Op]['input'] | void>;
+
+/**
+ * Runs after the Vortex API call succeeded, before the response is sent.
+ * Return a replacement to change the response; errors fail the request.
+ */
+export type VortexAfterHook<Op extends VortexOperation> = (
+  result: VortexOperations[Op]['result'],
+  input: VortexOperations[Op]['input'],
+  context: VortexOperationContext
+) => VortexOperations[Op]['result'] | void | Promise<VortexOperations[Op]['result'] | void>;
+
+export async function runBeforeHook<Op extends VortexOperation>(
+  hook: VortexBeforeHook<Op> | undefined,
+  input: VortexOperations[Op]['input'],
+  context: VortexOperationContext
+): Promise<VortexOperations[Op]['input']> {
+  if (!hook) {
+    return input;
+  }
+  return (await hook(input, context)) ?? input;
+}
+
+export async function runAfterHook<Op extends VortexOperation>(
+  hook: VortexAfterHook<Op> | undefined,
+  result: VortexOperations[Op]['result'],
+  input: VortexOperations[Op]['input'],
+  context: VortexOperationContext
+): Promise<VortexOperations[Op]['result']> {
+  if (!hook) {
+    return result;
+  }
+  return (await hook(result, input, context)) ?? result;
+}
@@ -0,0 +1,148 @@
+import type { FastifyBaseLogger, FastifyRequest } from 'fastify';
+import type { VortexAccessControlHooks, VortexConfig } from './config';
+
+/**
+ * Structured fields attached to SDK log lines
+ */
+export interface VortexLogFields {
+  /** Vortex operation, e.g. `getInvitation` */
+  operation?: string;
+  /** Route pattern the request matched, e.g. `/api/vortex/invitations/:invitationId` */
+  route?: string;
+  invitationId?: string;
+  invitationIds?: string[];
+  scopeType?: string;
+  scope?: string;
+  userId?: string;
+  /** Time spent waiting on the Vortex API, in milliseconds */
+  upstreamLatencyMs?: number;
+  /** Attempts made so far, when a Vortex API call was retried */
+  upstreamAttempts?: number;
+  /** Whether a read was served from `config.cache` */
+  cacheHit?: boolean;
+  /** The `can*` hook that decided access, when one is configured */
+  accessHook?: keyof VortexAccessControlHooks;
+  /** Whether the access check allowed the request */
+  accessAllowed?: boolean;
+  /** Invitee address the by-target and accept routes were called with */
+  target?: { type: string; value: string };
+  /** Invitee addresses the create route was called with */
+  targets?: { type: string; value: string }[];
+  [key: string]: unknown;
+}
+
+const REDACTED = '[REDACTED]';
+
+// Field names whose values are always secrets
+const SECRET_KEY_PATTERN = /^(api[-_]?key|authorization|cookie|password|secret|token|jwt)$/i;
+
+const EMAIL_PATTERN = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+
+// International numbers (`+1 555 123 4567`) and grouped local ones (`(555) 123-4567`,
+// `555.123.4567`). Dates, timestamps, UUID segments and plain numeric IDs don't match.
+const PHONE_PATTERN =
+  /(?<![\w.+-])(?:\+\d[\d\s().-]{5,}\d|\(?\d{2,4}\)?[\s.-]\d{3,4}[\s.-]\d{3,4})(?![\w-]|\.\d)/g;
+
+// Fields holding a phone number, masked whatever its format
+const PHONE_KEY_PATTERN = /^phone(number)?$/i;
+
+function maskPhone(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  return digits.length >= 7 ? `***${digits.slice(-4)}` : phone;
+}
+
+/**
+ * Masks emails (`a***@example.com`), phone numbers (`***4567`) and the given
+ * secrets in a string.
+ */
+export function redactString(value: string, secrets: readonly string[] = []): string {
+  let redacted = value;
+  for (const secret of secrets) {
+    if (secret) {
+      redacted = redacted.split(secret).join(REDACTED);
+    }
+  }
+
+  return redacted.replace(EMAIL_PATTERN, '$1***@$2').replace(PHONE_PATTERN, maskPhone);
+}
+
+/**
+ * Returns a copy of `value` with emails, phone numbers, secret-named fields and
+ * the given secrets masked. Errors become `{ type, message, stack }`.
+ */
+export function redactLogValue(value: unknown, secrets: readonly string[] = []): unknown {
+  const seen = new WeakSet<object>();
+
+  const redact = (current: unknown, key?: string, isPhone = false): unknown => {
+    if (key !== undefined && SECRET_KEY_PATTERN.test(key) && current != null) {
+      return REDACTED;
+    }
+    if (typeof current === 'string') {
+      const phone = isPhone || (key !== undefined && PHONE_KEY_PATTERN.test(key));
+      return phone ? maskPhone(current) : redactString(current, secrets);
+    }
+    if (!current || typeof current !== 'object') {
+      return current;
+    }
+    if (seen.has(current)) {
+      return '[Circular]';
+    }
+    seen.add(current);
+
+    if (current instanceof Error) {
+      return {
+        type: current.name,
+        message: redactString(current.message, secrets),
+        ...(current.stack && { stack: redactString(current.stack, secrets) }),
+        ...('code' in current && { code: current.code }),
+      };
+    }
+    if (Array.isArray(current)) {
+      return current.map((item) => redact(item));
+    }
+    // `{ type: 'phone', value }` targets
+    const phoneTarget = PHONE_KEY_PATTERN.test(String((current as { type?: unknown }).type));
+    return Object.fromEntries(
+      Object.entries(current).map(([entryKey, entry]) => [
+        entryKey,
+        redact(entry, entryKey, phoneTarget && entryKey === 'value'),
+      ])
+    );
+  };
+
+  return redact(value);
+}
+
+/**
+ * Logger used for SDK log lines: the configuration's `logger`, or the request's
+ * logger so lines carry the request ID and go through your pino setup.
+ */
+export function getVortexLogger(
+  request: FastifyRequest,
+  config?: Pick<VortexConfig, 'logger'> | null
+): FastifyBaseLogger {
+  return config?.logger ?? request.log;
+}
+
+/**
+ * Writes a structured SDK log line, redacted unless `redactLogs` is `false`
+ */
+export function logVortexEvent(
+  request: FastifyRequest,
+  config: Pick<VortexConfig, 'logger' | 'redactLogs' | 'apiKey'> | null | undefined,
+  level: 'debug' | 'info' | 'warn' | 'error',
+  fields: VortexLogFields,
+  message: string
+): void {
+  const logger = getVortexLogger(request, config);
+  const entry = {
+    route: request.routeOptions?.url,
+    ...fields,
+  };
+  const payload =
+    config?.redactLogs === false
+      ? entry
+      : redactLogValue(entry, config?.apiKey ? [config.apiKey] : []);
+
+  logger[level](payload as object, message);
+}
@@ -0,0 +1,382 @@
+import { createHmac, randomUUID } from 'node:crypto';
+import Fastify, {
+  FastifyInstance,
+  FastifyReply,
+  FastifyRequest,
+  LightMyRequestResponse,
+} from 'fastify';
+import type {
+  InvitationResult,
+  InvitationScope,
+  InvitationTarget,
+  VortexWebhookEvent,
+  WebhookEventType,
+} from '@teamvortexsoftware/vortex-node-22-sdk';
+
+export interface MockVortexServerOptions {
+  /** When set, requests with a different `x-api-key` get a `401` */
+  apiKey?: string;
+  /** Account ID stamped on created invitations (default `mock-account`) */
+  accountId?: string;
+  /** Invitations the server starts with */
+  invitations?: InvitationResult[];
+}
+
+export interface MockVortexServer extends FastifyInstance {
+  /** The server's invitations by ID, for seeding and assertions */
+  invitations: Map<string, InvitationResult>;
+  /** Removes every invitation, then adds `options.invitations` again */
+  reset(): void;
+}
+
+interface MockCreateInvitationBody {
+  widgetConfigurationId?: string;
+  target?: { type?: InvitationTarget['type']; value?: string; name?: string; avatarUrl?: string };
+  inviter?: { userId?: string; name?: string; userName?: string; avatarUrl?: string };
+  groups?: { type: string; groupId?: string; name: string }[];
+  source?: string;
+  subtype?: string;
+  metadata?: Record<string, unknown>;
+}
+
+interface MockAcceptBody {
+  invitationIds?: string[];
+  user?: { email?: string; phone?: string; name?: string };
+}
+
+interface MockSyncInternalInvitationBody {
+  creatorId?: string;
+  targetValue?: string;
+  action?: 'accepted' | 'declined';
+}
+
+function sendError(reply: FastifyReply, statusCode: number, error: string) {
+  return reply.status(statusCode).send({ error });
+}
+
+/**
+ * In-memory stand-in for the Vortex invitation API, covering the endpoints the
+ * node SDK calls: create, get, by-target, by-scope (get and delete), revoke,
+ * accept, reinvite and sync-internal-invitation. Point `apiBaseUrl` at it to
+ * run the plugin end-to-end without network access.
+ *
+ * Usage:
+ * ```typescript
+ * import { createMockVortexServer } from '@teamvortexsoftware/vortex-fastify-5-sdk/testing';
+ *
+ * const mockVortex = createMockVortexServer();
+ * const apiBaseUrl = await mockVortex.listen({ port: 0, host: '127.0.0.1' });
+ *
+ * await app.register(vortexPlugin, {
+ *   prefix: '/api/vortex',
+ *   config: { apiKey: 'test-key', apiBaseUrl, ...hooks },
+ * });
+ * ```
+ */
+export function createMockVortexServer(options: MockVortexServerOptions = {}): MockVortexServer {
+  const accountId = options.accountId ?? 'mock-account';
+  const invitations = new Map<string, InvitationResult>();
+  const reset = () => {
+    invitations.clear();
+    for (const invitation of options.invitations ?? []) {
+      invitations.set(invitation.id, structuredClone(invitation));
+    }
+  };
+  reset();
+
+  const app = Object.assign(Fastify(), { invitations, reset }) as MockVortexServer;
+
+  // The node SDK sends `Content-Type: application/json` on bodiless DELETE and
+  // reinvite requests, which Fastify's default parser rejects
+  app.removeContentTypeParser('application/json');
+  app.addContentTypeParser('application/json', { parseAs: 'string' }, (_request, body, done) => {
+    try {
+      done(null, body ? JSON.parse(body as string) : undefined);
+    } catch (error) {
+      done(Object.assign(error as Error, { statusCode: 400 }), undefined);
+    }
+  });
+
+  app.addHook('onRequest', async (request, reply) => {
+    const apiKey = request.headers['x-api-key'];
+    if (!apiKey || (options.apiKey !== undefined && apiKey !== options.apiKey)) {
+      return sendError(reply, 401, 'Invalid API key');
+    }
+  });
+
+  const findInvitation = (request: FastifyRequest<{ Params: { invitationId: string } }>) =>
+    invitations.get(request.params.invitationId);
+
+  const inScope = (invitation: InvitationResult, scopeType: string, scope: string) =>
+    invitation.groups.some((group) => group.type === scopeType && group.groupId === scope);
+
+  const touch = (invitation: InvitationResult) => {
+    invitation.modifiedAt = new Date().toISOString();
+    return invitation;
+  };
+
+  app.post<{ Body: MockCreateInvitationBody }>('/api/v1/invitations', async (request, reply) => {
+    const { target, inviter, widgetConfigurationId } = request.body ?? {};
+    if (!widgetConfigurationId || !target?.type || !inviter?.userId) {
+      return sendError(reply, 400, 'widgetConfigurationId, target and inviter are required');
+    }
+
+    const id = randomUUID();
+    const createdAt = new Date().toISOString();
+    const groups: InvitationScope[] = (request.body.groups ?? []).map((group) => ({
+      id: randomUUID(),
+      accountId,
+      scopeId: group.groupId ?? '',
+      groupId: group.groupId ?? '',
+      type: group.type,
+      name: group.name,
+      createdAt,
+    }));
+    const invitation: InvitationResult = {
+      id,
+      accountId,
+      clickThroughs: 0,
+      formSubmissionData: null,
+      configurationAttributes: null,
+      attributes: request.body.metadata ?? null,
+      createdAt,
+      deactivated: false,
+      deliveryCount: target.type === 'share' ? 0 : 1,
+      deliveryTypes: [target.type],
+      foreignCreatorId: inviter.userId,
+      invitationType: target.type === 'share' ? 'multi_use' : 'single_use',
+      modifiedAt: null,
+      status: target.type === 'share' ? 'shared' : 'delivered',
+      views: 0,
+      widgetConfigurationId,
+      scopes: groups,
+      groups,
+      accepts: [],
+      expired: false,
+      target: [
+        {
+          type: target.type,
+          value: target.value ?? id,
+          name: target.name ?? null,
+          avatarUrl: target.avatarUrl ?? null,
+        },
+      ],
+      ...(request.body.source && { source: request.body.source }),
+      ...(request.body.subtype && { subtype: request.body.subtype }),
+      creatorName: inviter.name ?? inviter.userName ?? null,
+      creatorAvatarUrl: inviter.avatarUrl ?? null,
+    };
+    invitations.set(id, invitation);
+
+    return { id, shortLink: `https://vortex.mock/i/${id}`, status: invitation.status, createdAt };
+  });
+
+  app.get<{ Querystring: { targetType?: string; targetValue?: string } }>(
+    '/api/v1/invitations',
+    async (request, reply) => {
+      const { targetType, targetValue } = request.query;
+      if (!targetType || !targetValue) {
+        return sendError(reply, 400, 'targetType and targetValue are required');
+      }
+      const matching = [...invitations.values()].filter((invitation) =>
+        invitation.target.some(
+          (target) =>
+            target.type === targetType && target.value.toLowerCase() === targetValue.toLowerCase()
+        )
+      );
+      // The by-target endpoint leaves out the target, which the caller already knows
+      return {
+        invitations: matching.map((invitation) => {
+          const base: Partial<InvitationResult> = { ...invitation };
+          delete base.target;
+          return base;
+        }),
+      };
+    }
+  );
+
+  app.post<{ Body: MockAcceptBody }>('/api/v1/invitations/accept', async (request, reply) => {
+    const { invitationIds, user } = request.body ?? {};
+    if (!invitationIds?.length || (!user?.email && !user?.phone)) {
+      return sendError(reply, 400, 'invitationIds and a user email or phone are required');
+    }
+
+    const accepted: InvitationResult[] = [];
+    for (const invitationId of invitationIds) {
+      const invitation = invitations.get(invitationId);
+      if (!invitation) {
+        return sendError(reply, 404, 'Invitation not found');
+      }
+      if (
+        invitation.deactivated ||
+        (invitation.invitationType === 'single_use' && invitation.status === 'accepted')
+      ) {
+        return sendError(reply, 409, 'Invitation is no longer active');
+      }
+      accepted.push(invitation);
+    }
+
+    const target: InvitationTarget = user.email
+      ? { type: 'email', value: user.email, name: user.name ?? null }
+      : { type: 'phone', value: user.phone!, name: user.name ?? null };
+    for (const invitation of accepted) {
+      invitation.status = 'accepted';
+      invitation.accepts = [
+        ...(invitation.accepts ?? []),
+        { id: randomUUID(), accountId, acceptedAt: new Date().toISOString(), target },
+      ];
+      touch(invitation);
+    }
+    return accepted[0];
+  });
+
+  app.post<{ Body: MockSyncInternalInvitationBody }>(
+    '/api/v1/invitations/sync-internal-invitation',
+    async (request, reply) => {
+      const { creatorId, targetValue, action } = request.body ?? {};
+      if (!creatorId || !targetValue || (action !== 'accepted' && action !== 'declined')) {
+        return sendError(reply, 400, 'creatorId, targetValue and action are required');
+      }
+
+      const processed = [...invitations.values()].filter(
+        (invitation) =>
+          invitation.foreignCreatorId === creatorId &&
+          !invitation.deactivated &&
+          invitation.status !== 'accepted' &&
+          invitation.target.some(
+            (target) => target.type === 'internal' && target.value === targetValue
+          )
+      );
+      for (const invitation of processed) {
+        if (action === 'accepted') {
+          invitation.status = 'accepted';
+        } else {
+          invitation.deactivated = true;
+        }
+        touch(invitation);
+      }
+      return {
+        processed: processed.length,
+        invitationIds: processed.map((invitation) => invitation.id),
+      };
+    }
+  );
+
+  app.get<{ Params: { scopeType: string; scope: string } }>(
+    '/api/v1/invitations/by-scope/:scopeType/:scope',
+    async (request) => {
+      const { scopeType, scope } = request.params;
+      return {
+        invitations: [...invitations.values()].filter((invitation) =>
+          inScope(invitation, scopeType, scope)
+        ),
+      };
+    }
+  );
+
+  app.delete<{ Params: { scopeType: string; scope: string } }>(
+    '/api/v1/invitations/by-scope/:scopeType/:scope',
+    async (request) => {
+      const { scopeType, scope } = request.params;
+      for (const invitation of [...invitations.values()]) {
+        if (inScope(invitation, scopeType, scope)) {
+          invitations.delete(invitation.id);
+        }
+      }
+      return {};
+    }
+  );
+
+  app.get<{ Params: { invitationId: string } }>(
+    '/api/v1/invitations/:invitationId',
+    async (request, reply) =>
+      findInvitation(request) ?? sendError(reply, 404, 'Invitation not found')
+  );
+
+  app.delete<{ Params: { invitationId: string } }>(
+    '/api/v1/invitations/:invitationId',
+    async (request, reply) => {
+      const invitation = findInvitation(request);
+      if (!invitation) {
+        return sendError(reply, 404, 'Invitation not found');
+      }
+      invitation.deactivated = true;
+      touch(invitation);
+      return {};
+    }
+  );
+
+  app.post<{ Params: { invitationId: string } }>(
+    '/api/v1/invitations/:invitationId/reinvite',
+    async (request, reply) => {
+      const invitation = findInvitation(request);
+      if (!invitation) {
+        return sendError(reply, 404, 'Invitation not found');
+      }
+      if (invitation.deactivated) {
+        return sendError(reply, 409, 'Invitation is no longer active');
+      }
+      invitation.deliveryCount += 1;
+      return touch(invitation);
+    }
+  );
+
+  return app;
+}
+
+/**
+ * Builds a webhook event with the given type and data; the remaining fields
+ * get test defaults (a random `id`, the current `timestamp`)
+ */
+export function createVortexWebhookEvent(
+  type: WebhookEventType,
+  data: Record<string, unknown> = {},
+  overrides: Partial<VortexWebhookEvent> = {}
+): VortexWebhookEvent {
+  return {
+    id: `evt_${randomUUID()}`,
+    type,
+    timestamp: new Date().toISOString(),
+    accountId: 'mock-account',
+    environmentId: null,
+    sourceTable: 'invitations',
+    operation: 'update',
+    data,
+    ...overrides,
+  };
+}
+
+/**
+ * The `X-Vortex-Signature` value for `payload` signed with `secret`
+ */
+export function signVortexWebhook(payload: string | Buffer, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+export interface DeliverVortexWebhookOptions {
+  /** Signing secret configured on the receiving webhook route */
+  secret: string;
+  /** Path of the webhook route (default `/webhooks/vortex`) */
+  url?: string;
+}
+
+/**
+ * Signs `event` and injects it into `app` the way Vortex delivers webhooks.
+ * Resolves with the injected response.
+ */
+export function deliverVortexWebhook(
+  app: FastifyInstance,
+  event: VortexWebhookEvent,
+  options: DeliverVortexWebhookOptions
+): Promise<LightMyRequestResponse> {
+  const payload = JSON.stringify(event);
+  return app.inject({
+    method: 'POST',
+    url: options.url ?? '/webhooks/vortex',
+    headers: {
+      'content-type': 'application/json',
+      'x-vortex-signature': signVortexWebhook(payload, options.secret),
+    },
+    payload,
+  });
+}
@@ -0,0 +1,219 @@
+import { VORTEX_ROUTES } from './routes';
+import {
+  VORTEX_ROUTE_SCHEMAS,
+  acceptInvitationsBodySchema,
+  createInvitationBodySchema,
+  createInvitationPartialResponseSchema,
+  createInvitationResponseSchema,
+  createInvitationResultSchema,
+  errorResponseSchema,
+  invitationSchema,
+  invitationScopeSchema,
+  invitationTargetSchema,
+  invitationsResponseSchema,
+  jwtResponseSchema,
+  successResponseSchema,
+  syncInternalInvitationBodySchema,
+  syncInternalInvitationResponseSchema,
+  VortexRouteSchema,
+} from './schemas';
+
+type VortexRouteName = keyof typeof VORTEX_ROUTE_SCHEMAS;
+
+/**
+ * OpenAPI operation IDs, keyed like `VORTEX_ROUTE_SCHEMAS`. They are only used in
+ * the generated document: a route registered more than once (e.g. per tenant)
+ * would otherwise produce duplicate IDs in `@fastify/swagger` output.
+ */
+const VORTEX_OPERATION_IDS = {
+  JWT: { post: 'generateVortexJwt' },
+  INVITATIONS: { get: 'getInvitationsByTarget', post: 'createInvitation' },
+  INVITATION: { get: 'getInvitation', delete: 'revokeInvitation' },
+  INVITATIONS_ACCEPT: { post: 'acceptInvitations' },
+  INVITATIONS_BY_SCOPE: { get: 'getInvitationsByScope', delete: 'deleteInvitationsByScope' },
+  INVITATIONS_BY_GROUP: { get: 'getInvitationsByGroup', delete: 'deleteInvitationsByGroup' },
+  INVITATION_REINVITE: { post: 'reinvite' },
+  SYNC_INTERNAL_INVITATION: { post: 'syncInternalInvitation' },
+} as const satisfies {
+  [Route in VortexRouteName]: { [Method in keyof (typeof VORTEX_ROUTE_SCHEMAS)[Route]]: string };
+};
+
+// Schemas published under components.schemas and referenced with $ref
+const COMPONENT_SCHEMAS: [string, object][] = [
+  ['VortexError', errorResponseSchema],
+  ['VortexSuccess', successResponseSchema],
+  ['VortexJwt', jwtResponseSchema],
+  ['Invitation', invitationSchema],
+  ['InvitationTarget', invitationTargetSchema],
+  ['InvitationScope', invitationScopeSchema],
+  ['InvitationList', invitationsResponseSchema],
+  ['AcceptInvitationsRequest', acceptInvitationsBodySchema],
+  ['CreateInvitationRequest', createInvitationBodySchema],
+  ['CreatedInvitation', createInvitationResultSchema],
+  ['CreateInvitationResponse', createInvitationResponseSchema],
+  ['CreateInvitationPartialResponse', createInvitationPartialResponseSchema],
+  ['SyncInternalInvitationRequest', syncInternalInvitationBodySchema],
+  ['SyncInternalInvitationResponse', syncInternalInvitationResponseSchema],
+];
+
+const ERROR_RESPONSES: Record<string, string> = {
+  '400': 'Invalid request',
+  '401': 'Unauthorized',
+  '403': 'Access denied',
+  '404': 'Invitation not found',
+  '405': 'Method not allowed',
+  '409': 'Invitation is in a conflicting state',
+  '422': 'Rejected by the Vortex API',
+  '429': 'Too many requests',
+  '500': 'Internal error',
+  '502': 'Vortex API unavailable',
+  '503': 'Vortex API circuit open',
+  '504': 'Vortex API timed out',
+};
+
+export interface VortexOpenApiOptions {
+  /** Path prefix the routes are mounted under (defaults to `/api/vortex`) */
+  prefix?: string;
+  /** Document `info` block */
+  info?: { title?: string; version?: string; description?: string };
+  /** Optional `servers` entries */
+  servers?: { url: string; description?: string }[];
+  /** Tags applied to every operation (defaults to `['Vortex']`) */
+  tags?: string[];
+}
+
+export interface VortexOpenApiDocument {
+  openapi: '3.1.0';
+  info: { title: string; version: string; description?: string };
+  servers?: { url: string; description?: string }[];
+  tags: { name: string }[];
+  paths: Record<string, Record<string, unknown>>;
+  components: { schemas: Record<string, unknown> };
+}
+
+/**
+ * Replaces nested component schemas with `$ref`s, leaving `root` itself inline
+ */
+function toOpenApiSchema(schema: unknown, root: unknown = schema): unknown {
+  if (schema !== root) {
+    const component = COMPONENT_SCHEMAS.find(([, value]) => value === schema);
+    if (component) {
+      return { $ref: `#/components/schemas/${component[0]}` };
+    }
+  }
+  if (Array.isArray(schema)) {
+    return schema.map((item) => toOpenApiSchema(item, root));
+  }
+  if (schema && typeof schema === 'object') {
+    return Object.fromEntries(
+      Object.entries(schema).map(([key, value]) => [key, toOpenApiSchema(value, root)])
+    );
+  }
+  return schema;
+}
+
+function toOpenApiParameters(schema: unknown, location: 'path' | 'query') {
+  const { properties = {}, required = [] } = schema as {
+    properties?: Record<string, unknown>;
+    required?: readonly string[];
+  };
+
+  return Object.entries(properties).map(([name, propertySchema]) => ({
+    name,
+    in: location,
+    required: location === 'path' || required.includes(name),
+    schema: toOpenApiSchema(propertySchema),
+  }));
+}
+
+function toOpenApiOperation(schema: VortexRouteSchema, operationId: string, tags: string[]) {
+  const parameters = [
+    ...(schema.params ? toOpenApiParameters(schema.params, 'path') : []),
+    ...(schema.querystring ? toOpenApiParameters(schema.querystring, 'query') : []),
+  ];
+  const successSchema = (schema.response as Record<string, unknown>)[200];
+  const partialSchema = (schema.response as Record<string, unknown>)[207];
+  const errorContent = {
+    'application/json': { schema: { $ref: '#/components/schemas/VortexError' } },
+  };
+
+  return {
+    operationId,
+    summary: schema.summary,
+    ...(schema.deprecated && { deprecated: true }),
+    tags,
+    ...(parameters.length > 0 && { parameters }),
+    ...(schema.body !== undefined && {
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: toOpenApiSchema(schema.body, null) } },
+      },
+    }),
+    responses: {
+      '200': {
+        description: 'Successful response',
+        content: { 'application/json': { schema: toOpenApiSchema(successSchema, null) } },
+      },
+      ...(partialSchema !== undefined && {
+        '207': {
+          description: 'Created for some targets only',
+          content: { 'application/json': { schema: toOpenApiSchema(partialSchema, null) } },
+        },
+      }),
+      ...Object.fromEntries(
+        Object.entries(ERROR_RESPONSES).map(([status, description]) => [
+          status,
+          { description, content: errorContent },
+        ])
+      ),
+    },
+  };
+}
+
+/**
+ * Builds an OpenAPI 3.1 document describing the routes mounted by `vortexPlugin`
+ * and `registerVortexRoutes`.
+ *
+ * Usage:
+ * ```typescript
+ * import { getVortexOpenApiSpec } from '@teamvortexsoftware/vortex-fastify-5-sdk';
+ *
+ * const spec = getVortexOpenApiSpec({ prefix: '/api/vortex' });
+ * fastify.get('/openapi/vortex.json', async () => spec);
+ * ```
+ */
+export function getVortexOpenApiSpec(options: VortexOpenApiOptions = {}): VortexOpenApiDocument {
+  const prefix = (options.prefix ?? '/api/vortex').replace(/\/$/, '');
+  const tags = options.tags ?? ['Vortex'];
+  const paths: VortexOpenApiDocument['paths'] = {};
+
+  for (const route of Object.keys(VORTEX_ROUTE_SCHEMAS) as VortexRouteName[]) {
+    const path = `${prefix}${VORTEX_ROUTES[route]}`.replace(/:(\w+)/g, '{$1}');
+    const methodSchemas: Record<string, VortexRouteSchema> = VORTEX_ROUTE_SCHEMAS[route];
+    const operationIds: Record<string, string> = VORTEX_OPERATION_IDS[route];
+
+    paths[path] = Object.fromEntries(
+      Object.entries(methodSchemas).map(([method, schema]) => [
+        method,
+        toOpenApiOperation(schema, operationIds[method], tags),
+      ])
+    );
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: options.info?.title ?? 'Vortex API',
+      version: options.info?.version ?? '1.0.0',
+      ...(options.info?.description && { description: options.info.description }),
+    },
+    ...(options.servers && { servers: options.servers }),
+    tags: tags.map((name) => ({ name })),
+    paths,
+    components: {
+      schemas: Object.fromEntries(
+        COMPONENT_SCHEMAS.map(([name, schema]) => [name, toOpenApiSchema(schema)])
+      ),
+    },
+  };
+}
@@ -0,0 +1,162 @@
+import type { FastifyRequest } from 'fastify';
+import type { InvitationResultBase } from '@teamvortexsoftware/vortex-node-22-sdk';
+import { VortexValidationError } from './errors';
+import { getQueryParam } from './utils';
+
+export const INVITATION_LIST_STATUSES = ['pending', 'accepted', 'revoked', 'expired'] as const;
+export const INVITATION_LIST_SORTS = [
+  'createdAt',
+  '-createdAt',
+  'modifiedAt',
+  '-modifiedAt',
+] as const;
+export const INVITATION_DELIVERY_TYPES = ['email', 'phone', 'share', 'internal'] as const;
+
+/** Largest `limit` a list route accepts */
+export const MAX_INVITATION_PAGE_SIZE = 100;
+
+export type InvitationListStatus = (typeof INVITATION_LIST_STATUSES)[number];
+export type InvitationListSort = (typeof INVITATION_LIST_SORTS)[number];
+
+/**
+ * Paging, filtering and sorting options of the list routes
+ */
+export interface InvitationListQuery {
+  limit?: number;
+  /** Opaque cursor from a previous page's `nextCursor` */
+  cursor?: string;
+  status?: InvitationListStatus;
+  deliveryType?: (typeof INVITATION_DELIVERY_TYPES)[number];
+  /** Field to sort by; prefix with `-` for descending */
+  sort?: InvitationListSort;
+}
+
+export interface InvitationPage<T> {
+  invitations: T[];
+  /** Cursor for the next page, or `null` on the last page */
+  nextCursor: string | null;
+  /** Number of invitations matching the filters, across all pages */
+  total: number;
+}
+
+/**
+ * Derives the list status of an invitation: accepted, then revoked
+ * (deactivated), then expired, otherwise pending.
+ */
+export function getInvitationListStatus(invitation: InvitationResultBase): InvitationListStatus {
+  if (invitation.status === 'accepted' || invitation.status === 'accepted_elsewhere') {
+    return 'accepted';
+  }
+  if (invitation.deactivated) {
+    return 'revoked';
+  }
+  if (invitation.expired) {
+    return 'expired';
+  }
+  return 'pending';
+}
+
+function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Number.isInteger(offset) && offset >= 0) {
+      return offset;
+    }
+  } catch {
+    // Fall through to the validation error
+  }
+  throw new VortexValidationError('cursor is invalid');
+}
+
+function oneOf<T extends string>(
+  name: string,
+  value: string | null,
+  allowed: readonly T[]
+): T | undefined {
+  if (value === null) {
+    return undefined;
+  }
+  if (!allowed.includes(value as T)) {
+    throw new VortexValidationError(`${name} must be one of: ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+/**
+ * Reads and validates the list query parameters. Route schemas validate them
+ * too; this keeps the handlers safe when they are mounted without schemas.
+ */
+export function parseInvitationListQuery(request: FastifyRequest): InvitationListQuery {
+  // Schema validation coerces `limit` to a number; without a schema it is a string
+  const rawLimit = (request.query as Record<string, unknown> | undefined)?.limit;
+  const limit =
+    rawLimit === undefined || rawLimit === ''
+      ? undefined
+      : Number(getQueryParam(request, 'limit') ?? rawLimit);
+  if (
+    limit !== undefined &&
+    (!Number.isInteger(limit) || limit < 1 || limit > MAX_INVITATION_PAGE_SIZE)
+  ) {
+    throw new VortexValidationError(
+      `limit must be an integer between 1 and ${MAX_INVITATION_PAGE_SIZE}`
+    );
+  }
+
+  const cursor = getQueryParam(request, 'cursor') ?? undefined;
+  if (cursor !== undefined) {
+    decodeCursor(cursor);
+  }
+
+  return {
+    limit,
+    cursor,
+    status: oneOf('status', getQueryParam(request, 'status'), INVITATION_LIST_STATUSES),
+    deliveryType: oneOf(
+      'deliveryType',
+      getQueryParam(request, 'deliveryType'),
+      INVITATION_DELIVERY_TYPES
+    ),
+    sort: oneOf('sort', getQueryParam(request, 'sort'), INVITATION_LIST_SORTS),
+  };
+}
+
+function compareTimestamps(a: string | null | undefined, b: string | null | undefined) {
+  return (a ? Date.parse(a) : 0) - (b ? Date.parse(b) : 0);
+}
+
+/**
+ * Filters, sorts and slices invitations the Vortex API returned in full.
+ * Without `limit` every matching invitation is returned.
+ */
+export function paginateInvitations<T extends InvitationResultBase>(
+  invitations: T[],
+  query: InvitationListQuery
+): InvitationPage<T> {
+  let matching = invitations.filter(
+    (invitation) =>
+      (!query.status || getInvitationListStatus(invitation) === query.status) &&
+      (!query.deliveryType || (invitation.deliveryTypes ?? []).includes(query.deliveryType))
+  );
+
+  if (query.sort) {
+    const descending = query.sort.startsWith('-');
+    const field = query.sort.replace(/^-/, '') as 'createdAt' | 'modifiedAt';
+    // Array.prototype.sort is stable, so ties keep the API's order
+    matching = [...matching].sort(
+      (a, b) => compareTimestamps(a[field], b[field]) * (descending ? -1 : 1)
+    );
+  }
+
+  const offset = query.cursor ? decodeCursor(query.cursor) : 0;
+  const end = query.limit === undefined ? matching.length : offset + query.limit;
+
+  return {
+    invitations: matching.slice(offset, end),
+    nextCursor: end < matching.length ? encodeCursor(end) : null,
+    total: matching.length,
+  };
+}
@@ -0,0 +1,162 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { authenticateRequest, getVortexConfig } from './config';
+import { VortexRateLimitError, sendVortexError } from './errors';
+import { logVortexEvent } from './logging';
+import type { VORTEX_ROUTES } from './routes';
+
+type VortexRouteName = keyof typeof VORTEX_ROUTES;
+
+export interface VortexRateLimitRule {
+  /** Requests allowed per window */
+  max: number;
+  /** Window length in milliseconds */
+  windowMs: number;
+}
+
+/**
+ * Request counters behind the rate limiter. Implement it on Redis or a similar
+ * shared backend so every instance enforces the same limits.
+ */
+export interface VortexRateLimitStore {
+  /**
+   * Counts a request against `key` and returns the count in the current
+   * window and when that window resets (epoch milliseconds)
+   */
+  increment(
+    key: string,
+    windowMs: number
+  ): { count: number; resetAt: number } | Promise<{ count: number; resetAt: number }>;
+}
+
+/**
+ * Fixed-window counters kept in process memory, the default rate limit store
+ */
+export class MemoryRateLimitStore implements VortexRateLimitStore {
+  private readonly windows = new Map<string, { count: number; resetAt: number }>();
+  private lastPrunedAt = 0;
+
+  increment(key: string, windowMs: number): { count: number; resetAt: number } {
+    const now = Date.now();
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      // Sweep expired windows at most once per window length
+      if (now - this.lastPrunedAt >= windowMs) {
+        this.prune(now);
+      }
+      window = { count: 0, resetAt: now + windowMs };
+      this.windows.set(key, window);
+    }
+    window.count += 1;
+    return { ...window };
+  }
+
+  private prune(now: number) {
+    this.lastPrunedAt = now;
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
+
+export interface VortexRateLimitOptions {
+  /** Requests per window for routes without their own rule (default 60) */
+  max?: number;
+  /** Window length in milliseconds for routes without their own rule (default one minute) */
+  windowMs?: number;
+  /**
+   * Rules per route, keyed like `VORTEX_ROUTES` and merged over
+   * `DEFAULT_RATE_LIMITS`. `false` turns limiting off for a route.
+   */
+  routes?: Partial<Record<VortexRouteName, Partial<VortexRateLimitRule> | false>>;
+  /**
+   * What requests are counted by: `'ip'` (default), `'user'` (the authenticated
+   * user ID, falling back to the IP) or a function returning the key
+   */
+  keyBy?: 'ip' | 'user' | ((request: FastifyRequest) => string | Promise<string>);
+  /** Defaults to a `MemoryRateLimitStore` */
+  store?: VortexRateLimitStore;
+}
+
+/**
+ * Stricter limits for the routes end users reach directly, where invitations
+ * could otherwise be enumerated by email or phone number
+ */
+export const DEFAULT_RATE_LIMITS: Partial<Record<VortexRouteName, VortexRateLimitRule>> = {
+  INVITATIONS: { max: 10, windowMs: 60_000 },
+  INVITATIONS_ACCEPT: { max: 10, windowMs: 60_000 },
+};
+
+async function getRateLimitKey(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  keyBy: VortexRateLimitOptions['keyBy']
+): Promise<string> {
+  if (typeof keyBy === 'function') {
+    return keyBy(request);
+  }
+  if (keyBy === 'user') {
+    const user = await authenticateRequest(request, reply).catch(() => null);
+    if (user) {
+      return `user:${user.userId}`;
+    }
+  }
+  return `ip:${request.ip}`;
+}
+
+/**
+ * Creates the rate limiter behind the `rateLimit` route option. Returns an
+ * `onRequest` hook for a route, or `null` when the route isn't limited.
+ * Requests over the limit get a `429` with a `Retry-After` header; if the store
+ * fails, requests are let through.
+ */
+export function createVortexRateLimiter(options: VortexRateLimitOptions = {}) {
+  const store = options.store ?? new MemoryRateLimitStore();
+  const routeRules = { ...DEFAULT_RATE_LIMITS, ...options.routes };
+
+  return function rateLimitFor(route: VortexRouteName) {
+    const routeRule = routeRules[route];
+    if (routeRule === false) {
+      return null;
+    }
+    const rule: VortexRateLimitRule = {
+      max: routeRule?.max ?? options.max ?? 60,
+      windowMs: routeRule?.windowMs ?? options.windowMs ?? 60_000,
+    };
+
+    return async function vortexRateLimit(request: FastifyRequest, reply: FastifyReply) {
+      const config = await getVortexConfig(request).catch(() => null);
+
+      let usage: { count: number; resetAt: number };
+      try {
+        const key = await getRateLimitKey(request, reply, options.keyBy);
+        usage = await store.increment(
+          `${request.method} ${request.routeOptions.url}:${key}`,
+          rule.windowMs
+        );
+      } catch (error) {
+        logVortexEvent(
+          request,
+          config,
+          'warn',
+          { operation: 'rateLimit', error },
+          'Vortex rate limit store failed; allowing request'
+        );
+        return;
+      }
+
+      if (usage.count > rule.max) {
+        const retryAfter = Math.max(1, Math.ceil((usage.resetAt - Date.now()) / 1000));
+        logVortexEvent(
+          request,
+          config,
+          'debug',
+          { operation: 'rateLimit', retryAfter },
+          'Vortex rate limit exceeded'
+        );
+        return sendVortexError(request, reply, new VortexRateLimitError(retryAfter), config);
+      }
+    };
+  };
+}
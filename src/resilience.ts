@@ -0,0 +1,154 @@
+import { setTimeout as sleep } from 'node:timers/promises';
+import {
+  VortexCircuitOpenError,
+  VortexUpstreamError,
+  VortexUpstreamTimeoutError,
+  toVortexHttpError,
+} from './errors';
+
+export interface VortexRetryOptions {
+  /** Retries after the first attempt (default 2) */
+  retries?: number;
+  /** Delay before the first retry, doubled for each further one (default 100ms) */
+  minDelayMs?: number;
+  /** Upper bound for a single delay (default 2 seconds) */
+  maxDelayMs?: number;
+}
+
+export type VortexCircuitState = 'closed' | 'open' | 'half-open';
+
+export interface VortexCircuitBreakerOptions {
+  /** Consecutive upstream failures that open the circuit (default 5) */
+  failureThreshold?: number;
+  /** How long the circuit stays open before letting a trial call through (default 30 seconds) */
+  resetTimeoutMs?: number;
+  /** Called on every state change, e.g. to update a metrics gauge */
+  onStateChange?: (state: VortexCircuitState, previousState: VortexCircuitState) => void;
+}
+
+export interface VortexCircuitBreakerStats {
+  state: VortexCircuitState;
+  /** Consecutive upstream failures since the last success */
+  consecutiveFailures: number;
+  /** When the circuit last opened (epoch milliseconds), or `null` */
+  openedAt: number | null;
+}
+
+/**
+ * Whether a failed call means the Vortex API is unhealthy: 5xx and 429
+ * responses, network failures and timeouts. Other 4xx responses are answers,
+ * so they are neither retried nor counted by the circuit breaker.
+ */
+export function isUpstreamFailure(error: unknown): boolean {
+  const httpError = toVortexHttpError(error);
+  return (
+    httpError instanceof VortexUpstreamError || httpError instanceof VortexUpstreamTimeoutError
+  );
+}
+
+/**
+ * Consecutive-failure circuit breaker. Once `failureThreshold` upstream failures
+ * happen in a row the circuit opens and calls fail fast with a `503`; after
+ * `resetTimeoutMs` one trial call is let through, and its outcome closes or
+ * reopens the circuit.
+ */
+export class VortexCircuitBreaker {
+  private currentState: VortexCircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+
+  constructor(private readonly options: VortexCircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30_000;
+  }
+
+  get state(): VortexCircuitState {
+    return this.currentState;
+  }
+
+  getStats(): VortexCircuitBreakerStats {
+    return {
+      state: this.currentState,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt,
+    };
+  }
+
+  /**
+   * Throws a `VortexCircuitOpenError` unless a call may go ahead now
+   */
+  acquire(): void {
+    if (this.currentState === 'closed') {
+      return;
+    }
+    const reopensAt = (this.openedAt ?? 0) + this.resetTimeoutMs;
+    if (this.currentState === 'open' && Date.now() >= reopensAt) {
+      this.transition('half-open');
+    }
+    if (this.currentState === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+    throw new VortexCircuitOpenError(Math.max(1, Math.ceil((reopensAt - Date.now()) / 1000)));
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+    if (this.currentState !== 'closed') {
+      this.openedAt = null;
+      this.transition('closed');
+    }
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures += 1;
+    this.trialInFlight = false;
+    if (
+      this.currentState === 'half-open' ||
+      (this.currentState === 'closed' && this.consecutiveFailures >= this.failureThreshold)
+    ) {
+      this.openedAt = Date.now();
+      this.transition('open');
+    }
+  }
+
+  private transition(state: VortexCircuitState) {
+    const previousState = this.currentState;
+    this.currentState = state;
+    this.options.onStateChange?.(state, previousState);
+  }
+}
+
+/**
+ * Rejects with a `VortexUpstreamTimeoutError` when `promise` takes longer than
+ * `timeoutMs`. The underlying request is not aborted; its result is ignored.
+ */
+export async function withTimeout<T>(promise: Promise<T>, timeoutMs?: number): Promise<T> {
+  if (!timeoutMs) {
+    return promise;
+  }
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new VortexUpstreamTimeoutError()), timeoutMs);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Waits before retry number `attempt` (0-based): exponential backoff with
+ * jitter, capped at `maxDelayMs`
+ */
+export function waitBeforeRetry(options: VortexRetryOptions, attempt: number): Promise<void> {
+  const delay = Math.min(options.maxDelayMs ?? 2000, (options.minDelayMs ?? 100) * 2 ** attempt);
+  return sleep(delay / 2 + Math.random() * (delay / 2));
+}
@@ -1,10 +1,26 @@
 import { FastifyInstance, FastifyRequest, FastifyReply, FastifyPluginAsync } from 'fastify';
+import { VortexConfig, getVortexConfig, useVortexConfig } from './config';
+import { VortexValidationError, sendVortexError } from './errors';
+import { VortexIdempotencyOptions, createVortexIdempotency } from './idempotency';
+import { VortexRateLimitOptions, createVortexRateLimiter } from './rate-limit';
+import {
+  VORTEX_ROUTE_SCHEMAS,
+  VortexRouteSchema,
+  VortexAcceptInvitationsRoute,
+  VortexCreateInvitationRoute,
+  VortexInvitationRoute,
+  VortexInvitationsByGroupRoute,
+  VortexInvitationsByScopeRoute,
+  VortexInvitationsByTargetRoute,
+  VortexSyncInternalInvitationRoute,
+} from './schemas';
 import { handleJwtGeneration } from './handlers/jwt';
 import {
   handleGetInvitationsByTarget,
   handleGetInvitation,
   handleRevokeInvitation,
   handleAcceptInvitations,
+  handleCreateInvitation,
   handleGetInvitationsByGroup,
   handleDeleteInvitationsByGroup,
   handleGetInvitationsByScope,
@@ -49,20 +65,29 @@ export function createVortexJwtRoute() {
  * Creates individual route handlers for invitations endpoint
  */
 export function createVortexInvitationsRoute() {
-  return async function (request: FastifyRequest, reply: FastifyReply) {
+  return async function (request: FastifyRequest<VortexInvitationsByTargetRoute>, reply: FastifyReply) {
     return handleGetInvitationsByTarget(request, reply);
   };
 }
 
+/**
+ * Creates individual route handlers for invitation creation endpoint
+ */
+export function createVortexCreateInvitationRoute() {
+  return async function (request: FastifyRequest<VortexCreateInvitationRoute>, reply: FastifyReply) {
+    return handleCreateInvitation(request, reply);
+  };
+}
+
 /**
  * Creates individual route handlers for single invitation endpoint
  */
 export function createVortexInvitationRoute() {
   return {
-    get: async function (request: FastifyRequest, reply: FastifyReply) {
+    get: async function (request: FastifyRequest<VortexInvitationRoute>, reply: FastifyReply) {
       return handleGetInvitation(request, reply);
     },
-    delete: async function (request: FastifyRequest, reply: FastifyReply) {
+    delete: async function (request: FastifyRequest<VortexInvitationRoute>, reply: FastifyReply) {
       return handleRevokeInvitation(request, reply);
     },
   };
@@ -72,7 +97,7 @@ export function createVortexInvitationRoute() {
  * Creates individual route handlers for invitations accept endpoint
  */
 export function createVortexInvitationsAcceptRoute() {
-  return async function (request: FastifyRequest, reply: FastifyReply) {
+  return async function (request: FastifyRequest<VortexAcceptInvitationsRoute>, reply: FastifyReply) {
     return handleAcceptInvitations(request, reply);
   };
 }
@@ -82,10 +107,10 @@ export function createVortexInvitationsAcceptRoute() {
  */
 export function createVortexInvitationsByGroupRoute() {
   return {
-    get: async function (request: FastifyRequest, reply: FastifyReply) {
+    get: async function (request: FastifyRequest<VortexInvitationsByGroupRoute>, reply: FastifyReply) {
       return handleGetInvitationsByGroup(request, reply);
     },
-    delete: async function (request: FastifyRequest, reply: FastifyReply) {
+    delete: async function (request: FastifyRequest<VortexInvitationsByGroupRoute>, reply: FastifyReply) {
       return handleDeleteInvitationsByGroup(request, reply);
     },
   };
@@ -95,7 +120,7 @@ export function createVortexInvitationsByGroupRoute() {
  * Creates individual route handlers for reinvite endpoint
  */
 export function createVortexReinviteRoute() {
-  return async function (request: FastifyRequest, reply: FastifyReply) {
+  return async function (request: FastifyRequest<VortexInvitationRoute>, reply: FastifyReply) {
     return handleReinvite(request, reply);
   };
 }
@@ -104,7 +129,7 @@ export function createVortexReinviteRoute() {
  * Creates individual route handlers for sync internal invitation endpoint
  */
 export function createVortexSyncInternalInvitationRoute() {
-  return async function (request: FastifyRequest, reply: FastifyReply) {
+  return async function (request: FastifyRequest<VortexSyncInternalInvitationRoute>, reply: FastifyReply) {
     return handleSyncInternalInvitation(request, reply);
   };
 }
@@ -118,10 +143,10 @@ export function createVortexSyncInternalInvitationRoute() {
  */
 export function createVortexInvitationsByScopeRoute() {
   return {
-    get: async function (request: FastifyRequest, reply: FastifyReply) {
+    get: async function (request: FastifyRequest<VortexInvitationsByScopeRoute>, reply: FastifyReply) {
       return handleGetInvitationsByScope(request, reply);
     },
-    delete: async function (request: FastifyRequest, reply: FastifyReply) {
+    delete: async function (request: FastifyRequest<VortexInvitationsByScopeRoute>, reply: FastifyReply) {
       return handleDeleteInvitationsByScope(request, reply);
     },
   };
@@ -131,6 +156,7 @@ export function createVortexRoutes() {
   return {
     jwt: createVortexJwtRoute(),
     invitations: createVortexInvitationsRoute(),
+    createInvitation: createVortexCreateInvitationRoute(),
     invitation: createVortexInvitationRoute(),
     invitationsAccept: createVortexInvitationsAcceptRoute(),
     invitationsByGroup: createVortexInvitationsByGroupRoute(),
@@ -140,6 +166,116 @@ export function createVortexRoutes() {
   };
 }
 
+/**
+ * Responds with 400 when schema validation failed. Routes are registered with
+ * `attachValidation` so validation errors use the SDK's error envelope.
+ */
+async function rejectInvalidRequest(request: FastifyRequest, reply: FastifyReply) {
+  if (request.validationError) {
+    const config = await getVortexConfig(request).catch(() => null);
+    return sendVortexError(
+      request,
+      reply,
+      new VortexValidationError(request.validationError.message),
+      config
+    );
+  }
+}
+
+/**
+ * Registers every Vortex route on the given instance under `basePath`
+ */
+function addVortexRoutes(
+  fastify: FastifyInstance,
+  basePath: string,
+  options: VortexRouteOptions
+): void {
+  const routes = createVortexRoutes();
+  const rateLimitFor = options.rateLimit
+    ? createVortexRateLimiter(options.rateLimit === true ? {} : options.rateLimit)
+    : null;
+  const withOpenApi = (schema: VortexRouteSchema): VortexRouteSchema => ({
+    ...schema,
+    ...options.openApi,
+  });
+  const idempotency = options.idempotency
+    ? createVortexIdempotency(options.idempotency === true ? {} : options.idempotency)
+    : null;
+  const routeOptions = <Route extends keyof typeof VORTEX_ROUTE_SCHEMAS>(
+    route: Route,
+    method: keyof (typeof VORTEX_ROUTE_SCHEMAS)[Route]
+  ) => {
+    const rateLimit = rateLimitFor?.(route);
+    const idempotent = idempotency && (method === 'post' || method === 'delete');
+    return {
+      attachValidation: true,
+      preHandler: idempotent
+        ? [rejectInvalidRequest, idempotency.preHandler]
+        : rejectInvalidRequest,
+      schema: withOpenApi(VORTEX_ROUTE_SCHEMAS[route][method] as VortexRouteSchema),
+      ...(rateLimit && { onRequest: rateLimit }),
+      ...(idempotent && { onSend: idempotency.onSend }),
+    };
+  };
+
+  fastify.post(`${basePath}${VORTEX_ROUTES.JWT}`, routeOptions('JWT', 'post'), routes.jwt);
+  fastify.get<VortexInvitationsByTargetRoute>(
+    `${basePath}${VORTEX_ROUTES.INVITATIONS}`,
+    routeOptions('INVITATIONS', 'get'),
+    routes.invitations
+  );
+  fastify.post<VortexCreateInvitationRoute>(
+    `${basePath}${VORTEX_ROUTES.INVITATIONS}`,
+    routeOptions('INVITATIONS', 'post'),
+    routes.createInvitation
+  );
+  fastify.get<VortexInvitationRoute>(
+    `${basePath}${VORTEX_ROUTES.INVITATION}`,
+    routeOptions('INVITATION', 'get'),
+    routes.invitation.get
+  );
+  fastify.delete<VortexInvitationRoute>(
+    `${basePath}${VORTEX_ROUTES.INVITATION}`,
+    routeOptions('INVITATION', 'delete'),
+    routes.invitation.delete
+  );
+  fastify.post<VortexAcceptInvitationsRoute>(
+    `${basePath}${VORTEX_ROUTES.INVITATIONS_ACCEPT}`,
+    routeOptions('INVITATIONS_ACCEPT', 'post'),
+    routes.invitationsAccept
+  );
+  fastify.get<VortexInvitationsByGroupRoute>(
+    `${basePath}${VORTEX_ROUTES.INVITATIONS_BY_GROUP}`,
+    routeOptions('INVITATIONS_BY_GROUP', 'get'),
+    routes.invitationsByGroup.get
+  );
+  fastify.delete<VortexInvitationsByGroupRoute>(
+    `${basePath}${VORTEX_ROUTES.INVITATIONS_BY_GROUP}`,
+    routeOptions('INVITATIONS_BY_GROUP', 'delete'),
+    routes.invitationsByGroup.delete
+  );
+  fastify.get<VortexInvitationsByScopeRoute>(
+    `${basePath}${VORTEX_ROUTES.INVITATIONS_BY_SCOPE}`,
+    routeOptions('INVITATIONS_BY_SCOPE', 'get'),
+    routes.invitationsByScope.get
+  );
+  fastify.delete<VortexInvitationsByScopeRoute>(
+    `${basePath}${VORTEX_ROUTES.INVITATIONS_BY_SCOPE}`,
+    routeOptions('INVITATIONS_BY_SCOPE', 'delete'),
+    routes.invitationsByScope.delete
+  );
+  fastify.post<VortexInvitationRoute>(
+    `${basePath}${VORTEX_ROUTES.INVITATION_REINVITE}`,
+    routeOptions('INVITATION_REINVITE', 'post'),
+    routes.invitationReinvite
+  );
+  fastify.post<VortexSyncInternalInvitationRoute>(
+    `${basePath}${VORTEX_ROUTES.SYNC_INTERNAL_INVITATION}`,
+    routeOptions('SYNC_INTERNAL_INVITATION', 'post'),
+    routes.syncInternalInvitation
+  );
+}
+
 /**
  * Creates a Fastify plugin with all Vortex routes configured
  * This is the easiest way to integrate Vortex into a Fastify app
@@ -151,25 +287,23 @@ export function createVortexRoutes() {
  *
  * const fastify = Fastify();
  * await fastify.register(vortexPlugin, { prefix: '/api/vortex' });
+ *
+ * // Multi-tenant: each registration gets its own configuration
+ * await fastify.register(vortexPlugin, {
+ *   prefix: '/tenant-a/vortex',
+ *   config: { apiKey: process.env.TENANT_A_VORTEX_API_KEY!, ...tenantAHooks },
+ * });
  * ```
  */
-export const vortexPlugin: FastifyPluginAsync = async function vortexPlugin(
-  fastify: FastifyInstance
+export const vortexPlugin: FastifyPluginAsync<VortexPluginOptions> = async function vortexPlugin(
+  fastify: FastifyInstance,
+  options: VortexPluginOptions
 ) {
-  const routes = createVortexRoutes();
+  if (options.config) {
+    useVortexConfig(fastify, options.config);
+  }
 
-  // Register all routes
-  fastify.post(VORTEX_ROUTES.JWT, routes.jwt);
-  fastify.get(VORTEX_ROUTES.INVITATIONS, routes.invitations);
-  fastify.get(VORTEX_ROUTES.INVITATION, routes.invitation.get);
-  fastify.delete(VORTEX_ROUTES.INVITATION, routes.invitation.delete);
-  fastify.post(VORTEX_ROUTES.INVITATIONS_ACCEPT, routes.invitationsAccept);
-  fastify.get(VORTEX_ROUTES.INVITATIONS_BY_GROUP, routes.invitationsByGroup.get);
-  fastify.delete(VORTEX_ROUTES.INVITATIONS_BY_GROUP, routes.invitationsByGroup.delete);
-  fastify.get(VORTEX_ROUTES.INVITATIONS_BY_SCOPE, routes.invitationsByScope.get);
-  fastify.delete(VORTEX_ROUTES.INVITATIONS_BY_SCOPE, routes.invitationsByScope.delete);
-  fastify.post(VORTEX_ROUTES.INVITATION_REINVITE, routes.invitationReinvite);
-  fastify.post(VORTEX_ROUTES.SYNC_INTERNAL_INVITATION, routes.syncInternalInvitation);
+  addVortexRoutes(fastify, '', options);
 };
 
 /**
@@ -189,43 +323,58 @@ export const vortexPlugin: FastifyPluginAsync = async function vortexPlugin(
  */
 export async function registerVortexRoutes(
   fastify: FastifyInstance,
-  basePath: string = '/api/vortex'
+  basePath: string = '/api/vortex',
+  options: VortexRouteOptions = {}
 ): Promise<void> {
-  const routes = createVortexRoutes();
   const cleanBasePath = basePath.replace(/\/$/, '');
+  const { config } = options;
 
-  // Register all routes with the base path
-  fastify.post(`${cleanBasePath}${VORTEX_ROUTES.JWT}`, routes.jwt);
-  fastify.get(`${cleanBasePath}${VORTEX_ROUTES.INVITATIONS}`, routes.invitations);
-  fastify.get(`${cleanBasePath}${VORTEX_ROUTES.INVITATION}`, routes.invitation.get);
-  fastify.delete(`${cleanBasePath}${VORTEX_ROUTES.INVITATION}`, routes.invitation.delete);
-  fastify.post(`${cleanBasePath}${VORTEX_ROUTES.INVITATIONS_ACCEPT}`, routes.invitationsAccept);
-  fastify.get(
-    `${cleanBasePath}${VORTEX_ROUTES.INVITATIONS_BY_GROUP}`,
-    routes.invitationsByGroup.get
-  );
-  fastify.delete(
-    `${cleanBasePath}${VORTEX_ROUTES.INVITATIONS_BY_GROUP}`,
-    routes.invitationsByGroup.delete
-  );
-  fastify.get(
-    `${cleanBasePath}${VORTEX_ROUTES.INVITATIONS_BY_SCOPE}`,
-    routes.invitationsByScope.get
-  );
-  fastify.delete(
-    `${cleanBasePath}${VORTEX_ROUTES.INVITATIONS_BY_SCOPE}`,
-    routes.invitationsByScope.delete
-  );
-  fastify.post(`${cleanBasePath}${VORTEX_ROUTES.INVITATION_REINVITE}`, routes.invitationReinvite);
-  fastify.post(
-    `${cleanBasePath}${VORTEX_ROUTES.SYNC_INTERNAL_INVITATION}`,
-    routes.syncInternalInvitation
-  );
+  if (config) {
+    // Scope the configuration to a child context so it doesn't leak into `fastify`
+    await fastify.register(async function vortexRoutes(instance) {
+      useVortexConfig(instance, config);
+      addVortexRoutes(instance, cleanBasePath, options);
+    });
+    return;
+  }
+
+  addVortexRoutes(fastify, cleanBasePath, options);
+}
+
+/**
+ * Options shared by `vortexPlugin` and `registerVortexRoutes`
+ */
+export interface VortexRouteOptions {
+  /**
+   * Configuration for this set of routes. When omitted, the global
+   * configuration from `configureVortex*` is used.
+   */
+  config?: VortexConfig;
+  /**
+   * OpenAPI keywords merged into every route schema, for `@fastify/swagger`.
+   * Use `tags` to group the Vortex routes, or `hide` to leave them out of the docs.
+   */
+  openApi?: {
+    tags?: string[];
+    hide?: boolean;
+  };
+  /**
+   * Rate limits the routes, answering `429` with `Retry-After` once a client
+   * exceeds them. `true` uses the defaults (60 requests per minute, 10 on the
+   * target lookup and accept routes, counted per IP).
+   */
+  rateLimit?: boolean | VortexRateLimitOptions;
+  /**
+   * Honors an `Idempotency-Key` header on the POST and DELETE routes: the first
+   * response per key is stored and replayed for retries. `true` keeps responses
+   * in memory for 24 hours.
+   */
+  idempotency?: boolean | VortexIdempotencyOptions;
 }
 
 /**
  * Type definitions for Fastify plugin options
  */
-export interface VortexPluginOptions {
+export interface VortexPluginOptions extends VortexRouteOptions {
   prefix?: string;
 }
@@ -0,0 +1,506 @@
+import type { FastifySchema, RouteGenericInterface } from 'fastify';
+import type { InvitationListQuery } from './pagination';
+
+/**
+ * JSON Schemas for the Vortex routes.
+ *
+ * `vortexPlugin` and `registerVortexRoutes` attach these at registration so that
+ * Fastify validates params, querystrings and bodies with Ajv and serializes
+ * responses with fast-json-stringify. They are exported so you can reuse them
+ * when registering the handlers yourself.
+ */
+
+export const errorResponseSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    code: { type: 'string' },
+    details: {},
+  },
+  additionalProperties: true,
+} as const;
+
+export const successResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+  },
+  // Keep fields added by `after*` lifecycle hooks
+  additionalProperties: true,
+} as const;
+
+export const jwtResponseSchema = {
+  type: 'object',
+  properties: {
+    jwt: { type: 'string' },
+  },
+  // Keep fields added by `after*` lifecycle hooks
+  additionalProperties: true,
+} as const;
+
+export const invitationTargetSchema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: ['email', 'phone', 'share', 'internal'] },
+    value: { type: 'string' },
+    name: { type: ['string', 'null'] },
+    avatarUrl: { type: ['string', 'null'] },
+  },
+  additionalProperties: true,
+} as const;
+
+export const invitationScopeSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    accountId: { type: 'string' },
+    scopeId: { type: 'string' },
+    type: { type: 'string' },
+    name: { type: 'string' },
+    createdAt: { type: 'string' },
+  },
+  additionalProperties: true,
+} as const;
+
+/**
+ * Invitation as returned by the Vortex API. Unknown fields are passed through
+ * so new API fields reach clients without an SDK release.
+ */
+export const invitationSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    accountId: { type: 'string' },
+    status: { type: 'string' },
+    invitationType: { type: 'string' },
+    deliveryTypes: { type: 'array', items: { type: 'string' } },
+    foreignCreatorId: { type: 'string' },
+    widgetConfigurationId: { type: 'string' },
+    deactivated: { type: 'boolean' },
+    expired: { type: 'boolean' },
+    createdAt: { type: 'string' },
+    modifiedAt: { type: ['string', 'null'] },
+    scopes: { type: 'array', items: invitationScopeSchema },
+    target: { type: 'array', items: invitationTargetSchema },
+  },
+  additionalProperties: true,
+} as const;
+
+export const invitationsResponseSchema = {
+  type: 'object',
+  properties: {
+    invitations: { type: 'array', items: invitationSchema },
+    nextCursor: { type: ['string', 'null'] },
+    total: { type: 'integer' },
+  },
+} as const;
+
+export const syncInternalInvitationResponseSchema = {
+  type: 'object',
+  properties: {
+    processed: { type: 'number' },
+    invitationIds: { type: 'array', items: { type: 'string' } },
+  },
+  additionalProperties: true,
+} as const;
+
+export const createInvitationResultSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    shortLink: { type: 'string' },
+    status: { type: 'string' },
+    createdAt: { type: 'string' },
+  },
+  additionalProperties: true,
+} as const;
+
+export const createInvitationResponseSchema = {
+  type: 'object',
+  properties: {
+    invitations: { type: 'array', items: createInvitationResultSchema },
+  },
+} as const;
+
+/** Sent with status 207 when invitations were created for some targets only */
+export const createInvitationPartialResponseSchema = {
+  type: 'object',
+  properties: {
+    invitations: { type: 'array', items: createInvitationResultSchema },
+    failed: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          target: {
+            type: 'object',
+            properties: { type: { type: 'string' }, value: { type: 'string' } },
+          },
+          statusCode: { type: 'integer' },
+          error: { type: 'string' },
+          code: { type: 'string' },
+        },
+      },
+    },
+  },
+} as const;
+
+export const invitationParamsSchema = {
+  type: 'object',
+  properties: {
+    invitationId: { type: 'string', minLength: 1 },
+  },
+  required: ['invitationId'],
+} as const;
+
+export const scopeParamsSchema = {
+  type: 'object',
+  properties: {
+    scopeType: { type: 'string', minLength: 1 },
+    scope: { type: 'string', minLength: 1 },
+  },
+  required: ['scopeType', 'scope'],
+} as const;
+
+/** @deprecated Use scopeParamsSchema instead */
+export const groupParamsSchema = {
+  type: 'object',
+  properties: {
+    groupType: { type: 'string', minLength: 1 },
+    groupId: { type: 'string', minLength: 1 },
+  },
+  required: ['groupType', 'groupId'],
+} as const;
+
+/**
+ * Paging, filtering and sorting parameters of the list routes
+ */
+export const invitationListQuerystringSchema = {
+  type: 'object',
+  properties: {
+    limit: { type: 'integer', minimum: 1, maximum: 100 },
+    cursor: { type: 'string', minLength: 1 },
+    status: { type: 'string', enum: ['pending', 'accepted', 'revoked', 'expired'] },
+    deliveryType: { type: 'string', enum: ['email', 'phone', 'share', 'internal'] },
+    sort: { type: 'string', enum: ['createdAt', '-createdAt', 'modifiedAt', '-modifiedAt'] },
+  },
+} as const;
+
+export const invitationsByTargetQuerystringSchema = {
+  type: 'object',
+  properties: {
+    targetType: { type: 'string', enum: ['email', 'username', 'phoneNumber'] },
+    targetValue: { type: 'string', minLength: 1 },
+    ...invitationListQuerystringSchema.properties,
+  },
+  required: ['targetType', 'targetValue'],
+} as const;
+
+export const acceptInvitationsBodySchema = {
+  type: 'object',
+  properties: {
+    invitationIds: {
+      type: 'array',
+      items: { type: 'string', minLength: 1 },
+      minItems: 1,
+      maxItems: 100,
+    },
+    user: {
+      type: 'object',
+      properties: {
+        email: { type: 'string' },
+        phone: { type: 'string' },
+        name: { type: 'string' },
+      },
+      anyOf: [{ required: ['email'] }, { required: ['phone'] }],
+    },
+    /** @deprecated Use user instead */
+    target: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', enum: ['email', 'username', 'phoneNumber', 'phone'] },
+        value: { type: 'string', minLength: 1 },
+      },
+      required: ['type', 'value'],
+    },
+  },
+  // Optional unless `acceptIdentity` is `body`; the handler checks it
+  required: ['invitationIds'],
+} as const;
+
+export const createInvitationBodySchema = {
+  type: 'object',
+  properties: {
+    widgetConfigurationId: { type: 'string', minLength: 1 },
+    targets: {
+      type: 'array',
+      minItems: 1,
+      maxItems: 100,
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['email', 'phone', 'internal'] },
+          value: { type: 'string', minLength: 1 },
+          name: { type: 'string' },
+          avatarUrl: { type: 'string' },
+        },
+        required: ['type', 'value'],
+      },
+    },
+    scopeId: { type: 'string', minLength: 1 },
+    scopeType: { type: 'string', minLength: 1 },
+    scopeName: { type: 'string' },
+    source: { type: 'string' },
+    subtype: { type: 'string' },
+    templateVariables: { type: 'object', additionalProperties: { type: 'string' } },
+    metadata: { type: 'object' },
+    unfurlConfig: {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        description: { type: 'string' },
+        image: { type: 'string' },
+        type: {
+          type: 'string',
+          enum: ['website', 'article', 'video', 'music', 'book', 'profile', 'product'],
+        },
+        siteName: { type: 'string' },
+      },
+    },
+  },
+  required: ['widgetConfigurationId', 'targets'],
+  dependencies: { scopeId: ['scopeType'], scopeType: ['scopeId'] },
+} as const;
+
+export const syncInternalInvitationBodySchema = {
+  type: 'object',
+  properties: {
+    creatorId: { type: 'string', minLength: 1 },
+    targetValue: { type: 'string', minLength: 1 },
+    action: { type: 'string', enum: ['accepted', 'declined'] },
+    componentId: { type: 'string', minLength: 1 },
+  },
+  required: ['creatorId', 'targetValue', 'action', 'componentId'],
+} as const;
+
+/**
+ * Route schema plus the OpenAPI keywords understood by `@fastify/swagger`
+ */
+export interface VortexRouteSchema extends FastifySchema {
+  summary: string;
+  deprecated?: boolean;
+  tags?: string[];
+  hide?: boolean;
+}
+
+const errorResponses = {
+  '4xx': errorResponseSchema,
+  '5xx': errorResponseSchema,
+} as const;
+
+/**
+ * Route schemas keyed like `VORTEX_ROUTES`, then by HTTP method. `summary` and
+ * `deprecated` are picked up by `@fastify/swagger` and `getVortexOpenApiSpec`.
+ */
+export const VORTEX_ROUTE_SCHEMAS = {
+  JWT: {
+    post: {
+      summary: 'Generate a JWT for the authenticated user',
+      response: { 200: jwtResponseSchema, ...errorResponses },
+    },
+  },
+  INVITATIONS: {
+    get: {
+      summary: 'Get invitations by target',
+      querystring: invitationsByTargetQuerystringSchema,
+      response: { 200: invitationsResponseSchema, ...errorResponses },
+    },
+    post: {
+      summary: 'Create invitations',
+      body: createInvitationBodySchema,
+      response: {
+        200: createInvitationResponseSchema,
+        207: createInvitationPartialResponseSchema,
+        ...errorResponses,
+      },
+    },
+  },
+  INVITATION: {
+    get: {
+      summary: 'Get an invitation',
+      params: invitationParamsSchema,
+      response: { 200: invitationSchema, ...errorResponses },
+    },
+    delete: {
+      summary: 'Revoke an invitation',
+      params: invitationParamsSchema,
+      response: { 200: successResponseSchema, ...errorResponses },
+    },
+  },
+  INVITATIONS_ACCEPT: {
+    post: {
+      summary: 'Accept invitations',
+      body: acceptInvitationsBodySchema,
+      response: { 200: invitationSchema, ...errorResponses },
+    },
+  },
+  INVITATIONS_BY_SCOPE: {
+    get: {
+      summary: 'Get invitations for a scope',
+      params: scopeParamsSchema,
+      querystring: invitationListQuerystringSchema,
+      response: { 200: invitationsResponseSchema, ...errorResponses },
+    },
+    delete: {
+      summary: 'Delete invitations for a scope',
+      params: scopeParamsSchema,
+      response: { 200: successResponseSchema, ...errorResponses },
+    },
+  },
+  INVITATIONS_BY_GROUP: {
+    get: {
+      summary: 'Get invitations for a group',
+      deprecated: true,
+      params: groupParamsSchema,
+      querystring: invitationListQuerystringSchema,
+      response: { 200: invitationsResponseSchema, ...errorResponses },
+    },
+    delete: {
+      summary: 'Delete invitations for a group',
+      deprecated: true,
+      params: groupParamsSchema,
+      response: { 200: successResponseSchema, ...errorResponses },
+    },
+  },
+  INVITATION_REINVITE: {
+    post: {
+      summary: 'Resend an invitation',
+      params: invitationParamsSchema,
+      response: { 200: invitationSchema, ...errorResponses },
+    },
+  },
+  SYNC_INTERNAL_INVITATION: {
+    post: {
+      summary: 'Sync an internal invitation action',
+      body: syncInternalInvitationBodySchema,
+      response: { 200: syncInternalInvitationResponseSchema, ...errorResponses },
+    },
+  },
+} as const satisfies Record<string, Record<string, VortexRouteSchema>>;
+
+// Request types matching the schemas above
+
+export interface InvitationParams {
+  invitationId: string;
+}
+
+export interface ScopeParams {
+  scopeType: string;
+  scope: string;
+}
+
+/** @deprecated Use ScopeParams instead */
+export interface GroupParams {
+  groupType: string;
+  groupId: string;
+}
+
+export type InvitationListQuerystring = InvitationListQuery;
+
+export interface InvitationsByTargetQuerystring extends InvitationListQuerystring {
+  targetType: 'email' | 'username' | 'phoneNumber';
+  targetValue: string;
+}
+
+export interface AcceptInvitationsBody {
+  invitationIds: string[];
+  user?: {
+    email?: string;
+    phone?: string;
+    name?: string;
+  };
+  /** @deprecated Use user instead */
+  target?: {
+    type: 'email' | 'username' | 'phoneNumber' | 'phone';
+    value: string;
+  };
+}
+
+export type CreateInvitationDeliveryType = 'email' | 'phone' | 'internal';
+
+export interface CreateInvitationTargetBody {
+  type: CreateInvitationDeliveryType;
+  /** Email address, phone number or internal user ID */
+  value: string;
+  name?: string;
+  avatarUrl?: string;
+}
+
+export interface CreateInvitationBody {
+  widgetConfigurationId: string;
+  targets: CreateInvitationTargetBody[];
+  scopeId?: string;
+  scopeType?: string;
+  scopeName?: string;
+  source?: string;
+  subtype?: string;
+  templateVariables?: Record<string, string>;
+  metadata?: Record<string, unknown>;
+  unfurlConfig?: {
+    title?: string;
+    description?: string;
+    image?: string;
+    type?: 'website' | 'article' | 'video' | 'music' | 'book' | 'profile' | 'product';
+    siteName?: string;
+  };
+}
+
+/** A target `POST /invitations` could not create an invitation for (207 responses) */
+export interface CreateInvitationFailure {
+  target: { type: CreateInvitationDeliveryType; value: string };
+  statusCode: number;
+  error: string;
+  code: string;
+}
+
+export interface SyncInternalInvitationBody {
+  creatorId: string;
+  targetValue: string;
+  action: 'accepted' | 'declined';
+  componentId: string;
+}
+
+// Route generics for typing handlers (`FastifyRequest<VortexInvitationRoute>`)
+
+export type VortexJwtRoute = RouteGenericInterface;
+
+export interface VortexInvitationsByTargetRoute extends RouteGenericInterface {
+  Querystring: InvitationsByTargetQuerystring;
+}
+
+export interface VortexCreateInvitationRoute extends RouteGenericInterface {
+  Body: CreateInvitationBody;
+}
+
+export interface VortexInvitationRoute extends RouteGenericInterface {
+  Params: InvitationParams;
+}
+
+export interface VortexAcceptInvitationsRoute extends RouteGenericInterface {
+  Body: AcceptInvitationsBody;
+}
+
+export interface VortexInvitationsByScopeRoute extends RouteGenericInterface {
+  Params: ScopeParams;
+  Querystring: InvitationListQuerystring;
+}
+
+/** @deprecated Use VortexInvitationsByScopeRoute instead */
+export interface VortexInvitationsByGroupRoute extends RouteGenericInterface {
+  Params: GroupParams;
+  Querystring: InvitationListQuerystring;
+}
+
+export interface VortexSyncInternalInvitationRoute extends RouteGenericInterface {
+  Body: SyncInternalInvitationBody;
+}
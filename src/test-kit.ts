@@ -0,0 +1,218 @@
+import type {
+  FastifyInstance,
+  FastifyReply,
+  FastifyRequest,
+  InjectOptions,
+  LightMyRequestResponse,
+} from 'fastify';
+import { getScopes } from './access-control';
+import type {
+  AccessControlHook,
+  AuthenticatedUser,
+  VortexAccessControlHooks,
+  VortexConfig,
+} from './config';
+import {
+  createMockVortexServer,
+  createVortexWebhookEvent,
+  deliverVortexWebhook,
+  signVortexWebhook,
+} from './mock-server';
+
+/** Request header `withUser` uses to pass the user to `authenticateUser` */
+export const VORTEX_TEST_USER_HEADER = 'x-vortex-test-user';
+
+export interface VortexTestAuthenticateUserOptions {
+  /**
+   * Must be `true` for the `withUser` header to be read. Never set it outside
+   * tests: anyone can send the header.
+   */
+  trustTestHeader: boolean;
+  /** Called for requests without a trusted test user */
+  fallback?: VortexConfig['authenticateUser'];
+}
+
+/** One call of a `can*` hook, recorded by `VortexAccessRecorder` */
+export interface VortexAccessDecision {
+  hook: keyof VortexAccessControlHooks;
+  method: string;
+  /** Route pattern, e.g. `/api/vortex/invitations/by-scope/:scopeType/:scope` */
+  route?: string;
+  url: string;
+  userId: string | null;
+  resource: unknown;
+  scopes: { scopeType: string; scopeId: string }[];
+  allowed: boolean;
+  /** Set when the hook threw instead of returning */
+  error?: unknown;
+}
+
+/** Criteria for `VortexAccessRecorder.find`; omitted fields match anything */
+export interface VortexAccessDecisionQuery {
+  hook?: keyof VortexAccessControlHooks;
+  method?: string;
+  /** Route pattern or request URL */
+  route?: string;
+  /** `null` matches anonymous requests */
+  userId?: string | null;
+  scopeType?: string;
+  scope?: string;
+  invitationId?: string;
+}
+
+function matchesQuery(decision: VortexAccessDecision, query: VortexAccessDecisionQuery) {
+  const resource = (decision.resource ?? {}) as { invitationId?: string; invitationIds?: string[] };
+  return (
+    (query.hook === undefined || decision.hook === query.hook) &&
+    (query.method === undefined || decision.method === query.method.toUpperCase()) &&
+    (query.route === undefined || decision.route === query.route || decision.url === query.route) &&
+    (query.userId === undefined || decision.userId === query.userId) &&
+    (query.scopeType === undefined ||
+      decision.scopes.some((scope) => scope.scopeType === query.scopeType)) &&
+    (query.scope === undefined || decision.scopes.some((scope) => scope.scopeId === query.scope)) &&
+    (query.invitationId === undefined ||
+      resource.invitationId === query.invitationId ||
+      !!resource.invitationIds?.includes(query.invitationId))
+  );
+}
+
+function describeQuery(query: VortexAccessDecisionQuery) {
+  return JSON.stringify(query);
+}
+
+/**
+ * Records every `can*` hook call with its user, resource and outcome
+ */
+export class VortexAccessRecorder {
+  readonly decisions: VortexAccessDecision[] = [];
+
+  /**
+   * Returns `hooks` with every `can*` hook wrapped to record its calls
+   */
+  record<T extends VortexAccessControlHooks>(hooks: T): T {
+    const recorded = { ...hooks };
+    for (const [name, hook] of Object.entries(hooks)) {
+      if (name.startsWith('can') && typeof hook === 'function') {
+        (recorded as Record<string, unknown>)[name] = this.wrap(
+          name as keyof VortexAccessControlHooks,
+          hook as AccessControlHook
+        );
+      }
+    }
+    return recorded;
+  }
+
+  find(query: VortexAccessDecisionQuery = {}): VortexAccessDecision[] {
+    return this.decisions.filter((decision) => matchesQuery(decision, query));
+  }
+
+  clear(): void {
+    this.decisions.length = 0;
+  }
+
+  private wrap(name: keyof VortexAccessControlHooks, hook: AccessControlHook): AccessControlHook {
+    return async (request, reply, user, resource) => {
+      const decision: VortexAccessDecision = {
+        hook: name,
+        method: request.method,
+        route: request.routeOptions?.url,
+        url: request.url,
+        userId: user?.userId ?? null,
+        resource,
+        scopes: getScopes(name, resource),
+        allowed: false,
+      };
+      this.decisions.push(decision);
+      try {
+        decision.allowed = await hook(request, reply, user, resource);
+        return decision.allowed;
+      } catch (error) {
+        decision.error = error;
+        throw error;
+      }
+    };
+  }
+}
+
+function decisionMatcher(allowed: boolean) {
+  const verb = allowed ? 'allowed' : 'denied';
+  return (recorder: VortexAccessRecorder, query: VortexAccessDecisionQuery = {}) => {
+    const matching = recorder.find(query);
+    const pass = matching.some((decision) => decision.allowed === allowed && !decision.error);
+    return {
+      pass,
+      message: () =>
+        pass
+          ? `Expected no access hook call matching ${describeQuery(query)} to be ${verb}`
+          : `Expected an access hook call matching ${describeQuery(query)} to be ${verb}; ` +
+            `recorded: ${JSON.stringify(
+              matching.map(({ hook, method, url, userId, allowed: wasAllowed }) => ({
+                hook,
+                method,
+                url,
+                userId,
+                allowed: wasAllowed,
+              }))
+            )}`,
+    };
+  };
+}
+
+/**
+ * Test helpers for apps using the Vortex plugin. Not for production use:
+ * `authenticateUser` can trust a request header.
+ */
+export const vortexTestKit = {
+  /**
+   * An `authenticateUser` hook returning the user set by `withUser`, or calling
+   * `fallback` for requests without one. The header is only read with
+   * `trustTestHeader: true`, and never when `NODE_ENV` is `production`.
+   */
+  authenticateUser({ trustTestHeader, fallback }: VortexTestAuthenticateUserOptions) {
+    return async (
+      request: FastifyRequest,
+      reply: FastifyReply
+    ): Promise<AuthenticatedUser | null> => {
+      const header = request.headers[VORTEX_TEST_USER_HEADER];
+      if (
+        trustTestHeader === true &&
+        typeof header === 'string' &&
+        process.env.NODE_ENV !== 'production'
+      ) {
+        return JSON.parse(Buffer.from(header, 'base64url').toString('utf8'));
+      }
+      return fallback ? fallback(request, reply) : null;
+    };
+  },
+
+  /**
+   * Injects requests into `app` as `user`, for apps whose configuration uses
+   * `vortexTestKit.authenticateUser()`
+   */
+  withUser(app: FastifyInstance, user: AuthenticatedUser) {
+    const encodedUser = Buffer.from(JSON.stringify(user)).toString('base64url');
+    return {
+      inject: (options: InjectOptions): Promise<LightMyRequestResponse> =>
+        app.inject({
+          ...options,
+          headers: { ...options.headers, [VORTEX_TEST_USER_HEADER]: encodedUser },
+        }),
+    };
+  },
+
+  createAccessRecorder: () => new VortexAccessRecorder(),
+
+  /**
+   * Matchers for `expect.extend`:
+   * `expect(recorder).toHaveDenied({ userId: 'user-2', scope: 'team-1' })`
+   */
+  matchers: {
+    toHaveAllowed: decisionMatcher(true),
+    toHaveDenied: decisionMatcher(false),
+  },
+
+  createMockVortexServer,
+  createVortexWebhookEvent,
+  signVortexWebhook,
+  deliverVortexWebhook,
+};
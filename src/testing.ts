@@ -0,0 +1,21 @@
+/**
+ * Test helpers, published as `@teamvortexsoftware/vortex-fastify-5-sdk/testing`
+ * so they stay out of the main entry and production bundles.
+ */
+export {
+  createMockVortexServer,
+  createVortexWebhookEvent,
+  signVortexWebhook,
+  deliverVortexWebhook,
+} from './mock-server';
+export type {
+  MockVortexServer,
+  MockVortexServerOptions,
+  DeliverVortexWebhookOptions,
+} from './mock-server';
+export { vortexTestKit, VortexAccessRecorder, VORTEX_TEST_USER_HEADER } from './test-kit';
+export type {
+  VortexAccessDecision,
+  VortexAccessDecisionQuery,
+  VortexTestAuthenticateUserOptions,
+} from './test-kit';
@@ -49,4 +49,69 @@ export function sanitizeInput(input: string | null): string | null {
     .trim()
     .replace(/[<>'"]/g, '') // Remove basic XSS characters
     .substring(0, 1000); // Limit length to prevent DoS
+}
+
+export interface FieldProjection {
+  /** Fields to keep; dotted paths reach into nested objects and arrays (`target.type`) */
+  include?: string[];
+  /** Fields to remove, e.g. `['target.value', 'formSubmissionData']` */
+  exclude?: string[];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function includePaths(value: unknown, paths: string[][]): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => includePaths(item, paths));
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  const nested = new Map<string, string[][]>();
+  for (const [head, ...rest] of paths) {
+    if (!(head in value)) continue;
+    const entry = nested.get(head) ?? [];
+    // An empty rest keeps the whole field
+    entry.push(rest);
+    nested.set(head, entry);
+  }
+
+  return Object.fromEntries(
+    [...nested].map(([key, rests]) => [
+      key,
+      rests.some(rest => rest.length === 0) ? value[key] : includePaths(value[key], rests),
+    ])
+  );
+}
+
+function excludePath(value: unknown, [head, ...rest]: string[]): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => excludePath(item, [head, ...rest]));
+  }
+  if (!isPlainObject(value) || !(head in value)) {
+    return value;
+  }
+  if (rest.length === 0) {
+    const remaining = { ...value };
+    delete remaining[head];
+    return remaining;
+  }
+  return { ...value, [head]: excludePath(value[head], rest) };
+}
+
+/**
+ * Returns a copy of `value` with only the included fields, minus the excluded ones
+ */
+export function projectFields<T>(value: T, projection: FieldProjection): Partial<T> {
+  let projected: unknown = value;
+  if (projection.include) {
+    projected = includePaths(projected, projection.include.map(path => path.split('.')));
+  }
+  for (const path of projection.exclude ?? []) {
+    projected = excludePath(projected, path.split('.'));
+  }
+  return projected as Partial<T>;
 }
\ No newline at end of file
@@ -0,0 +1,92 @@
+import type { FastifyBaseLogger, FastifyRequest } from 'fastify';
+import type { VortexWebhookEvent, WebhookEventType } from '@teamvortexsoftware/vortex-node-22-sdk';
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    /** Set by `vortexWebhookPlugin`; absent until it is registered */
+    vortex?: {
+      /** Verified webhook events received by `vortexWebhookPlugin` */
+      events: VortexWebhookEvents;
+    };
+  }
+}
+
+/** Request context passed to webhook event listeners */
+export interface VortexWebhookContext {
+  /** The webhook delivery request */
+  request: FastifyRequest;
+  log: FastifyBaseLogger;
+}
+
+/**
+ * An event type, a prefix wildcard such as `invitation.*` (which also matches
+ * `invitation.email.delivered`), or `*` for every webhook event
+ */
+export type VortexWebhookEventPattern = WebhookEventType | `${string}.*` | '*';
+
+/** The event a listener for `P` receives */
+export type VortexWebhookEventFor<P extends VortexWebhookEventPattern> = P extends WebhookEventType
+  ? VortexWebhookEvent & { type: P }
+  : VortexWebhookEvent;
+
+export type VortexWebhookListener<P extends VortexWebhookEventPattern = VortexWebhookEventPattern> =
+  (event: VortexWebhookEventFor<P>, context: VortexWebhookContext) => void | Promise<void>;
+
+function matchesPattern(pattern: string, type: string) {
+  if (pattern === '*') {
+    return true;
+  }
+  return pattern.endsWith('.*') ? type.startsWith(pattern.slice(0, -1)) : pattern === type;
+}
+
+/**
+ * Routes verified webhook events to any number of listeners, so several parts
+ * of an app can react to the same event
+ */
+export class VortexWebhookEvents {
+  private readonly listeners: { pattern: string; listener: VortexWebhookListener }[] = [];
+
+  /**
+   * Subscribes `listener` to events matching `pattern`. Returns a function
+   * that unsubscribes it.
+   */
+  on<P extends VortexWebhookEventPattern>(pattern: P, listener: VortexWebhookListener<P>) {
+    this.listeners.push({ pattern, listener: listener as VortexWebhookListener });
+    return () => this.off(pattern, listener);
+  }
+
+  off<P extends VortexWebhookEventPattern>(pattern: P, listener: VortexWebhookListener<P>): void {
+    const index = this.listeners.findIndex(
+      (entry) => entry.pattern === pattern && entry.listener === listener
+    );
+    if (index !== -1) {
+      this.listeners.splice(index, 1);
+    }
+  }
+
+  listenerCount(type?: WebhookEventType): number {
+    return type
+      ? this.listeners.filter(({ pattern }) => matchesPattern(pattern, type)).length
+      : this.listeners.length;
+  }
+
+  /**
+   * Runs every matching listener. All of them run even if one fails; the
+   * failure is rethrown afterwards (as an `AggregateError` for several).
+   */
+  async emit(event: VortexWebhookEvent, context: VortexWebhookContext): Promise<void> {
+    const matching = this.listeners.filter(({ pattern }) => matchesPattern(pattern, event.type));
+    const results = await Promise.allSettled(
+      matching.map(async ({ listener }) => listener(event, context))
+    );
+    const errors = results.flatMap((result) =>
+      result.status === 'rejected' ? [result.reason] : []
+    );
+    if (errors.length === 1) {
+      throw errors[0];
+    }
+    if (errors.length > 1) {
+      throw new AggregateError(errors, `${errors.length} Vortex webhook listeners failed`);
+    }
+  }
+}
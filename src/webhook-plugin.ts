@@ -0,0 +1,105 @@
+import type { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import type { WebhookHandlers } from '@teamvortexsoftware/vortex-node-22-sdk';
+import { createVortexWebhookHandler, VortexWebhookHandlerOptions } from './handlers/webhooks';
+import { VortexWebhookEvents, VortexWebhookListener } from './webhook-events';
+import type { VortexWebhookSecrets } from './webhook-secrets';
+
+export interface VortexWebhookPluginOptions extends VortexWebhookHandlerOptions {
+  /**
+   * Webhook signing secret from your Vortex dashboard. Pass several to rotate
+   * secrets without downtime, or a resolver for per-account secrets.
+   */
+  secret: VortexWebhookSecrets;
+  /** Event handler configuration */
+  handlers?: WebhookHandlers;
+  /** Path of the webhook route, relative to the plugin prefix (default `/webhooks/vortex`) */
+  path?: string;
+  prefix?: string;
+  onInvitationCreated?: VortexWebhookListener<'invitation.created'>;
+  onInvitationAccepted?: VortexWebhookListener<'invitation.accepted'>;
+  onInvitationDeactivated?: VortexWebhookListener<'invitation.deactivated'>;
+}
+
+/**
+ * Fastify plugin receiving Vortex webhook events. It mounts a POST route at
+ * `path` and registers a JSON content-type parser, scoped to the route, that
+ * keeps the raw body for signature verification, so `fastify-raw-body` isn't
+ * needed and your other routes keep Fastify's default parser.
+ *
+ * Verified events also go to `fastify.vortex.events`, decorated on the
+ * instance the plugin is registered on, so other plugins can subscribe to them.
+ *
+ * Usage:
+ * ```typescript
+ * import { vortexWebhookPlugin } from '@teamvortexsoftware/vortex-fastify-5-sdk';
+ *
+ * await fastify.register(vortexWebhookPlugin, {
+ *   secret: process.env.VORTEX_WEBHOOK_SECRET!,
+ *   onInvitationAccepted: async (event, { log }) => {
+ *     log.info({ eventId: event.id }, 'Invitation accepted');
+ *     await db.activateUser(event.data.targetEmail);
+ *   },
+ * });
+ *
+ * // Anywhere else in the app
+ * fastify.vortex.events.on('invitation.*', async (event) => {
+ *   await audit.record(event.type, event.data);
+ * });
+ * ```
+ */
+export const vortexWebhookPlugin: FastifyPluginAsync<VortexWebhookPluginOptions> =
+  async function vortexWebhookPlugin(
+    fastify: FastifyInstance,
+    options: VortexWebhookPluginOptions
+  ) {
+    const {
+      secret,
+      handlers = {},
+      path = '/webhooks/vortex',
+      prefix,
+      onInvitationCreated,
+      onInvitationAccepted,
+      onInvitationDeactivated,
+      ...handlerOptions
+    } = options;
+
+    if (!fastify.hasDecorator('vortex')) {
+      fastify.decorate('vortex', { events: new VortexWebhookEvents() });
+    }
+    const events = handlerOptions.events ?? fastify.vortex!.events;
+    if (onInvitationCreated) {
+      events.on('invitation.created', onInvitationCreated);
+    }
+    if (onInvitationAccepted) {
+      events.on('invitation.accepted', onInvitationAccepted);
+    }
+    if (onInvitationDeactivated) {
+      events.on('invitation.deactivated', onInvitationDeactivated);
+    }
+
+    await fastify.register(
+      async function vortexWebhookRoute(instance) {
+        // The body stays a Buffer: the handler verifies the signature on the
+        // exact bytes and parses the event itself
+        instance.removeContentTypeParser('application/json');
+        instance.addContentTypeParser(
+          'application/json',
+          { parseAs: 'buffer' },
+          (request, body, done) => {
+            Object.assign(request, { rawBody: body });
+            done(null, body);
+          }
+        );
+
+        instance.post(
+          path,
+          createVortexWebhookHandler(secret, handlers, { ...handlerOptions, events })
+        );
+      },
+      { prefix }
+    );
+  };
+
+// Like `fastify-plugin`: runs in the caller's context so `fastify.vortex` is
+// visible there; the route and its parser live in the child context above
+Object.assign(vortexWebhookPlugin, { [Symbol.for('skip-override')]: true });
@@ -0,0 +1,118 @@
+import { VortexEvent, isWebhookEvent } from '@teamvortexsoftware/vortex-node-22-sdk';
+import { VortexRetryOptions, waitBeforeRetry } from './resilience';
+
+/**
+ * Receives verified webhook events once they have been acknowledged. A queue
+ * backed by a job system (BullMQ, SQS, ...) can persist `event` and call the
+ * handlers from its own worker instead of using `process`.
+ */
+export interface VortexWebhookQueue {
+  /**
+   * Schedules `process(event)`. Throwing here fails the delivery with a `500`,
+   * so Vortex retries it.
+   */
+  enqueue(event: VortexEvent, process: (event: VortexEvent) => Promise<void>): void | Promise<void>;
+}
+
+export interface MemoryWebhookQueueOptions {
+  /** Events of one type processed at the same time (default 5) */
+  concurrency?: number;
+  /** Per event type overrides of `concurrency`, e.g. `{ 'invitation.accepted': 1 }` */
+  concurrencyByType?: Record<string, number>;
+  /** Retries for a failing event (default 3 retries, from 1 second up to 30 seconds apart) */
+  retry?: VortexRetryOptions;
+  /** Called with events that still fail after the last retry */
+  onDeadLetter?: (event: VortexEvent, error: unknown) => void | Promise<void>;
+}
+
+interface QueuedEvent {
+  event: VortexEvent;
+  process: (event: VortexEvent) => Promise<void>;
+}
+
+/**
+ * In-process worker pool, the default webhook queue. Events are lost if the
+ * process exits before they are processed; call `drain()` on shutdown.
+ */
+export class MemoryWebhookQueue implements VortexWebhookQueue {
+  private readonly pending = new Map<string, QueuedEvent[]>();
+  private readonly running = new Map<string, number>();
+  private readonly idleWaiters: (() => void)[] = [];
+  private readonly retry: VortexRetryOptions;
+
+  constructor(private readonly options: MemoryWebhookQueueOptions = {}) {
+    this.retry = { retries: 3, minDelayMs: 1000, maxDelayMs: 30_000, ...options.retry };
+  }
+
+  /** Events waiting for or being processed */
+  get size(): number {
+    let size = 0;
+    for (const queued of this.pending.values()) {
+      size += queued.length;
+    }
+    for (const count of this.running.values()) {
+      size += count;
+    }
+    return size;
+  }
+
+  enqueue(event: VortexEvent, process: (event: VortexEvent) => Promise<void>): void {
+    const type = isWebhookEvent(event) ? event.type : event.name;
+    const queued = this.pending.get(type) ?? [];
+    queued.push({ event, process });
+    this.pending.set(type, queued);
+    this.startWorkers(type);
+  }
+
+  /**
+   * Resolves once every queued event has been processed or dead-lettered
+   */
+  drain(): Promise<void> {
+    if (this.size === 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  private startWorkers(type: string) {
+    const limit = this.options.concurrencyByType?.[type] ?? this.options.concurrency ?? 5;
+    const queued = this.pending.get(type);
+    while (queued?.length && (this.running.get(type) ?? 0) < limit) {
+      const next = queued.shift()!;
+      this.running.set(type, (this.running.get(type) ?? 0) + 1);
+      void this.run(next).finally(() => this.finishWorker(type));
+    }
+    if (queued && !queued.length) {
+      this.pending.delete(type);
+    }
+  }
+
+  private finishWorker(type: string) {
+    const running = (this.running.get(type) ?? 1) - 1;
+    if (running) {
+      this.running.set(type, running);
+    } else {
+      this.running.delete(type);
+    }
+    this.startWorkers(type);
+    if (this.size === 0) {
+      this.idleWaiters.splice(0).forEach((resolve) => resolve());
+    }
+  }
+
+  private async run({ event, process }: QueuedEvent) {
+    const retries = this.retry.retries ?? 3;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await process(event);
+        return;
+      } catch (error) {
+        if (attempt >= retries) {
+          await Promise.resolve(this.options.onDeadLetter?.(event, error)).catch(() => {});
+          return;
+        }
+        await waitBeforeRetry(this.retry, attempt);
+      }
+    }
+  }
+}
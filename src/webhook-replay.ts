@@ -0,0 +1,65 @@
+/**
+ * Remembers delivered webhook event IDs. Implement it on Redis or a similar
+ * shared backend (`markSeen` maps to `SET key 1 NX PX ttl`) so a retry reaching
+ * another instance is recognized too.
+ */
+export interface VortexWebhookEventStore {
+  /**
+   * Records `eventId` unless it is already known. Returns `true` when the event
+   * is new, `false` for a duplicate.
+   */
+  markSeen(eventId: string, ttlMs: number): boolean | Promise<boolean>;
+  /** Forgets `eventId`, so a redelivery is processed again */
+  forget(eventId: string): void | Promise<void>;
+}
+
+/**
+ * Event IDs kept in process memory, the default store
+ */
+export class MemoryWebhookEventStore implements VortexWebhookEventStore {
+  private readonly expiries = new Map<string, number>();
+  private lastPrunedAt = 0;
+
+  markSeen(eventId: string, ttlMs: number): boolean {
+    const now = Date.now();
+    // Sweep expired IDs at most once a minute
+    if (now - this.lastPrunedAt >= 60_000) {
+      this.lastPrunedAt = now;
+      for (const [storedId, expiresAt] of this.expiries) {
+        if (expiresAt <= now) {
+          this.expiries.delete(storedId);
+        }
+      }
+    }
+
+    const expiresAt = this.expiries.get(eventId);
+    if (expiresAt !== undefined && expiresAt > now) {
+      return false;
+    }
+    this.expiries.set(eventId, now + ttlMs);
+    return true;
+  }
+
+  forget(eventId: string): void {
+    this.expiries.delete(eventId);
+  }
+}
+
+export interface VortexWebhookReplayOptions {
+  /**
+   * How far an event's `timestamp` may be from the current time, in either
+   * direction (default 5 minutes). Older events are rejected, including
+   * redeliveries of an event whose handlers failed.
+   */
+  toleranceMs?: number;
+  /** Defaults to a `MemoryWebhookEventStore` */
+  store?: VortexWebhookEventStore;
+}
+
+/**
+ * Whether `timestamp` (ISO-8601) lies within `toleranceMs` of `now`
+ */
+export function isWithinTolerance(timestamp: string, toleranceMs: number, now = Date.now()) {
+  const time = Date.parse(timestamp);
+  return !Number.isNaN(time) && Math.abs(now - time) <= toleranceMs;
+}
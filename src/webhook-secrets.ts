@@ -0,0 +1,114 @@
+import {
+  VortexEvent,
+  VortexWebhooks,
+  VortexWebhookSignatureError,
+} from '@teamvortexsoftware/vortex-node-22-sdk';
+
+/** A webhook signing secret with an ID reported when it matches */
+export interface VortexWebhookSecret {
+  id: string;
+  secret: string;
+}
+
+export type VortexWebhookSecretList = (string | VortexWebhookSecret)[];
+
+/**
+ * Fields read from the unverified payload to pick the secrets. They are only
+ * used to select candidates; the event is still verified against them.
+ */
+export interface VortexWebhookSecretContext {
+  accountId?: string;
+  environmentId?: string | null;
+}
+
+export type VortexWebhookSecretResolver = (
+  context: VortexWebhookSecretContext
+) => string | VortexWebhookSecretList | Promise<string | VortexWebhookSecretList>;
+
+/**
+ * The secrets a signature may match: one secret, several active secrets (e.g.
+ * the old and the new one while rotating), or a resolver for per-account or
+ * per-environment secrets
+ */
+export type VortexWebhookSecrets = string | VortexWebhookSecretList | VortexWebhookSecretResolver;
+
+/** Which secret verified an event */
+export interface VortexWebhookSecretMatch {
+  /** Position of the secret in the list */
+  index: number;
+  /** ID of the secret, when given as `{ id, secret }` */
+  id?: string;
+}
+
+export interface VerifiedWebhookEvent {
+  event: VortexEvent;
+  webhooks: VortexWebhooks;
+  match: VortexWebhookSecretMatch;
+}
+
+function readSecretContext(rawBody: string | Buffer): VortexWebhookSecretContext {
+  try {
+    const { accountId, environmentId } = JSON.parse(rawBody.toString());
+    return {
+      ...(typeof accountId === 'string' && { accountId }),
+      ...((typeof environmentId === 'string' || environmentId === null) && { environmentId }),
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Returns a function verifying a payload against `source` and parsing it.
+ * Throws a `VortexWebhookSignatureError` when no secret matches.
+ */
+export function createWebhookVerifier(source: VortexWebhooks | VortexWebhookSecrets) {
+  if (!source || (Array.isArray(source) && !source.length)) {
+    throw new Error('A webhook signing secret is required');
+  }
+  const instances = new Map<string, VortexWebhooks>();
+  const webhooksFor = (secret: string) => {
+    let webhooks = instances.get(secret);
+    if (!webhooks) {
+      webhooks = new VortexWebhooks({ secret });
+      instances.set(secret, webhooks);
+    }
+    return webhooks;
+  };
+
+  return async function verifyWebhookEvent(
+    rawBody: string | Buffer,
+    signature: string
+  ): Promise<VerifiedWebhookEvent> {
+    if (source instanceof VortexWebhooks) {
+      return {
+        event: source.constructEvent(rawBody, signature),
+        webhooks: source,
+        match: { index: 0 },
+      };
+    }
+
+    const secrets =
+      typeof source === 'function' ? await source(readSecretContext(rawBody)) : source;
+    const candidates = Array.isArray(secrets) ? secrets : [secrets];
+    for (const [index, candidate] of candidates.entries()) {
+      const { secret, id } =
+        typeof candidate === 'string' ? { secret: candidate, id: undefined } : candidate;
+      if (!secret) {
+        continue;
+      }
+      const webhooks = webhooksFor(secret);
+      if (webhooks.verifySignature(rawBody, signature)) {
+        return {
+          event: webhooks.constructEvent(rawBody, signature),
+          webhooks,
+          match: { index, ...(id !== undefined && { id }) },
+        };
+      }
+    }
+
+    throw new VortexWebhookSignatureError(
+      'Webhook signature verification failed. No active signing secret matched.'
+    );
+  };
+}